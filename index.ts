@@ -1,15 +1,33 @@
 #!/usr/bin/env node
 
+import { randomUUID } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { TaskManagerServer } from "./src/taskManagerServer.js";
 import { ALL_TOOLS } from "./src/tools.js";
+import { RESOURCE_TEMPLATES, ResourceSubscriptions } from "./src/resources.js";
+import { PROMPTS } from "./src/prompts.js";
+import { isCliCommand, parseArgs, ParsedArgs, runCli } from "./src/cli.js";
+import {
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  startHttpServer,
+} from "./src/httpServer.js";
+import { DEFAULT_DASHBOARD_PORT, startDashboard } from "./src/dashboard.js";
 import {
   RequestPlanningSchema,
   GetNextTaskSchema,
@@ -29,32 +47,38 @@ import {
   LogTaskCompletionSummarySchema,
   SplitTaskSchema,
   MergeTasksSchema,
+  ImportLegacyJsonSchema,
+  ExportRequestSchema,
+  RestoreTaskTreeSchema,
+  SearchTasksSchema,
+  GetTaskHistorySchema,
+  UndoSchema,
+  RetryTaskSchema,
+  RecordTaskCostSchema,
+  GetRequestCostReportSchema,
+  SubmitTaskForReviewSchema,
+  AddTaskFeedbackSchema,
+  RequestClarificationSchema,
+  AnswerClarificationSchema,
+  ListOpenQuestionsSchema,
+  SetSchedulingStrategySchema,
+  ClaimNextTaskSchema,
+  HeartbeatTaskSchema,
+  ReleaseTaskSchema,
+  ListActionableTasksSchema,
+  RegisterAgentSchema,
+  ListAgentsSchema,
+  RenderTaskGraphSchema,
+  SaveTemplateSchema,
+  ListTemplatesSchema,
+  InstantiateTemplateSchema,
 } from "./src/schemas.js";
-
-// Create MCP server
-const server = new Server(
-  {
-    name: "mcp-meta-mind",
-    version: "0.4.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
+import { runWithEventContext } from "./src/eventContext.js";
 
 // Create task manager instance
 const taskManagerServer = new TaskManagerServer();
 
-// Set up tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: ALL_TOOLS,
-  };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+const handleToolCall = async (request: CallToolRequest) => {
   const { name, arguments: args } = request.params;
 
   try {
@@ -347,6 +371,406 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "import_legacy_json": {
+        const params = ImportLegacyJsonSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.importLegacyJson(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "export_request": {
+        const params = ExportRequestSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.exportRequest(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "restore_task_tree": {
+        const params = RestoreTaskTreeSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.restoreTaskTree(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "search_tasks": {
+        const params = SearchTasksSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.searchTasks(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_task_history": {
+        const params = GetTaskHistorySchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.getTaskHistory(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "undo": {
+        const params = UndoSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.undo(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "retry_task": {
+        const params = RetryTaskSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.retryTask(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "record_task_cost": {
+        const params = RecordTaskCostSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.recordTaskCost(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "get_request_cost_report": {
+        const params = GetRequestCostReportSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.getRequestCostReport(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "submit_task_for_review": {
+        const params = SubmitTaskForReviewSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.submitTaskForReview(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "add_task_feedback": {
+        const params = AddTaskFeedbackSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.addTaskFeedback(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "request_clarification": {
+        const params = RequestClarificationSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.requestClarification(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "answer_clarification": {
+        const params = AnswerClarificationSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.answerClarification(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "list_open_questions": {
+        const params = ListOpenQuestionsSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.listOpenQuestions(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "set_scheduling_strategy": {
+        const params = SetSchedulingStrategySchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.setSchedulingStrategy(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "claim_next_task": {
+        const params = ClaimNextTaskSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.claimNextTask(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "heartbeat_task": {
+        const params = HeartbeatTaskSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.heartbeatTask(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "release_task": {
+        const params = ReleaseTaskSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.releaseTask(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "list_actionable_tasks": {
+        const params = ListActionableTasksSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.listActionableTasks(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "register_agent": {
+        const params = RegisterAgentSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.registerAgent(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "list_agents": {
+        const params = ListAgentsSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.listAgents(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "render_task_graph": {
+        const params = RenderTaskGraphSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.renderTaskGraph(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "save_template": {
+        const params = SaveTemplateSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.saveTemplate(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "list_templates": {
+        const params = ListTemplatesSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.listTemplates(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      case "instantiate_template": {
+        const params = InstantiateTemplateSchema.parse(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                await taskManagerServer.instantiateTemplate(params),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     }
@@ -359,16 +783,206 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
     throw error;
   }
-});
+};
+
+/**
+ * Creates an MCP server bound to the shared task manager. Each connection gets
+ * its own server so resource subscriptions stay per client.
+ */
+const createMcpServer = (): Server => {
+  const server = new Server(
+    {
+      name: "mcp-meta-mind",
+      version: "0.4.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    },
+  );
+
+  // Set up tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: ALL_TOOLS,
+    };
+  });
+
+  // Every tool call runs in its own event context so the audit trail records which
+  // tool (and optionally which agent) caused each mutation, grouped per call for undo
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const actor = request.params.arguments?.actor;
+    return runWithEventContext(
+      {
+        operationId: randomUUID(),
+        toolName: request.params.name,
+        actor: typeof actor === "string" ? actor : process.env.META_MIND_ACTOR,
+      },
+      () => handleToolCall(request),
+    );
+  });
+
+  // Resources expose read-only state under meta-mind:// URIs
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: await taskManagerServer.listResources(),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_TEMPLATES,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      return {
+        contents: [await taskManagerServer.readResource(uri)],
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Error reading resource ${uri}: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+  });
 
-async function runServer() {
-  const transport = new StdioServerTransport();
+  // Subscribed resources get notifications/resources/updated after every committed
+  // change, including auto-completion and auto-archive side effects
+  const subscriptions = new ResourceSubscriptions((uri) =>
+    server.sendResourceUpdated({ uri }),
+  );
+  const stopListening = taskManagerServer.onRepositoryChange((change) =>
+    subscriptions.handleChange(change),
+  );
+  server.onclose = stopListening;
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      subscriptions.subscribe(uri);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Error subscribing to resource ${uri}: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Prompts are templates filled with live data for the planning workflow
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: PROMPTS,
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    try {
+      return await taskManagerServer.getPrompt(name, args);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Error getting prompt ${name}: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+  });
+
+  return server;
+};
+
+const parsePort = (
+  value: string | boolean | undefined,
+  fallback: number,
+): number => {
+  if (typeof value !== "string") return fallback;
+  const port = parseInt(value, 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${value}'.`);
+  }
+  return port;
+};
+
+async function runServer(args: ParsedArgs) {
   await taskManagerServer.init();
-  await server.connect(transport);
-  console.error("Meta Mind MCP Server running with SQLite backend");
+
+  const host =
+    typeof args.flags.host === "string" ? args.flags.host : DEFAULT_HTTP_HOST;
+  // Read from the environment so the token does not show up in process lists
+  const authToken = process.env.META_MIND_AUTH_TOKEN || undefined;
+
+  if (args.flags.dashboard) {
+    const dashboardPort = parsePort(
+      args.flags["dashboard-port"],
+      DEFAULT_DASHBOARD_PORT,
+    );
+    await startDashboard(taskManagerServer, {
+      host,
+      port: dashboardPort,
+      authToken,
+    });
+    console.error(
+      `Meta Mind dashboard running on http://${host}:${dashboardPort}/${authToken ? "?token=<token>" : ""}`,
+    );
+  }
+
+  const transport = args.flags.transport || "stdio";
+  if (transport === "stdio") {
+    await createMcpServer().connect(new StdioServerTransport());
+    console.error("Meta Mind MCP Server running with SQLite backend");
+    return;
+  }
+  if (transport !== "http") {
+    throw new Error(`Unknown transport '${transport}'; use stdio or http.`);
+  }
+
+  const port = parsePort(args.flags.port, DEFAULT_HTTP_PORT);
+
+  const httpServer = await startHttpServer(createMcpServer, {
+    host,
+    port,
+    authToken,
+  });
+  const address = httpServer.address();
+  const boundPort =
+    typeof address === "object" && address ? address.port : port;
+  console.error(
+    `Meta Mind MCP Server running with SQLite backend on http://${host}:${boundPort}/sse${authToken ? " (bearer token required)" : ""}`,
+  );
 }
 
-runServer().catch((error) => {
-  console.error("Fatal error in server:", error);
-  process.exit(1);
-});
+const cliArgs = process.argv.slice(2);
+
+if (isCliCommand(cliArgs[0])) {
+  runCli(taskManagerServer, cliArgs)
+    .then((exitCode) => process.exit(exitCode))
+    .catch((error) => {
+      console.error("Fatal error in CLI:", error);
+      process.exit(1);
+    });
+} else {
+  runServer(parseArgs(cliArgs)).catch((error) => {
+    console.error("Fatal error in server:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,72 @@
+import {
+  Task,
+  TaskStatus,
+  Agent,
+  AgentStatus,
+  AgentWorkload,
+} from "./interfaces.js";
+
+/**
+ * The agent a task is attributed to: whoever holds its lease, else its assignee
+ */
+export const taskAgentId = (task: Task): string | undefined =>
+  task.leaseOwner || task.assignee;
+
+/**
+ * Whether an agent may pick up a task: it must be unassigned or assigned to
+ * the agent, and untyped or of a type the agent supports
+ */
+export const canAgentTakeTask = (
+  agentId: string,
+  agent: Agent | null,
+  task: Task,
+): boolean => {
+  if (task.assignee && task.assignee !== agentId) return false;
+  if (!agent || agent.taskTypes.length === 0 || !task.type) return true;
+  return agent.taskTypes.includes(task.type);
+};
+
+/**
+ * Counts tasks per agent by status, ordered by agent ID
+ */
+export const computeAgentWorkloads = (tasks: Task[]): AgentWorkload[] => {
+  const workloads = new Map<string, AgentWorkload>();
+
+  for (const task of tasks) {
+    const agentId = taskAgentId(task);
+    if (!agentId) continue;
+
+    const workload = workloads.get(agentId) || {
+      agentId,
+      active: 0,
+      open: 0,
+      done: 0,
+      failed: 0,
+    };
+    if (task.status === TaskStatus.Active) workload.active++;
+    else if (task.status === TaskStatus.Done) workload.done++;
+    else if (task.status === TaskStatus.Failed) workload.failed++;
+    else workload.open++;
+    workloads.set(agentId, workload);
+  }
+
+  return [...workloads.values()].sort((a, b) =>
+    a.agentId.localeCompare(b.agentId),
+  );
+};
+
+/**
+ * Why an agent cannot take new work right now, if it cannot
+ */
+export const agentUnavailableReason = (
+  agent: Agent,
+  activeTaskCount: number,
+): string | null => {
+  if (agent.status !== AgentStatus.Available) {
+    return `Agent '${agent.agentId}' is ${agent.status}.`;
+  }
+  if (activeTaskCount >= agent.maxConcurrency) {
+    return `Agent '${agent.agentId}' is at capacity (${activeTaskCount}/${agent.maxConcurrency} active task(s)).`;
+  }
+  return null;
+};
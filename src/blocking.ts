@@ -0,0 +1,147 @@
+import { Task, TaskStatus } from "./interfaces.js";
+
+export interface BlockedChain {
+  taskId: string;
+  rootCauseId: string;
+  rootCauseStatus: TaskStatus | "deleted";
+  chain: string[]; // root cause first, blocked task last
+}
+
+export interface BlockingChanges {
+  block: { taskId: string; rootCauseId: string }[];
+  unblock: string[];
+}
+
+interface BlockingCause {
+  rootCauseId: string;
+  chain: string[];
+}
+
+/**
+ * Walks the transitive dependencies of a task breadth-first and returns the
+ * nearest root cause: a dependency that failed, no longer exists, or is itself
+ * blocked by a cause that is not done yet (which is then inherited).
+ * @param stickyCauseId A previous root cause that keeps blocking until done
+ */
+const findBlockingCause = (
+  task: Task,
+  lookup: Map<string, Task>,
+  stickyCauseId?: string,
+): BlockingCause | null => {
+  const parents = new Map<string, string>([[task.id, ""]]);
+  const queue = [task.id];
+  let found: BlockingCause | null = null;
+
+  const chainTo = (id: string): string[] => {
+    const chain: string[] = [];
+    for (let cur = id; cur; cur = parents.get(cur)!) chain.push(cur);
+    return chain;
+  };
+
+  while (queue.length > 0) {
+    const current = lookup.get(queue.shift()!);
+    for (const depId of current?.dependsOn || []) {
+      if (parents.has(depId)) continue; // cycle or already seen
+      parents.set(depId, current!.id);
+
+      const dep = lookup.get(depId);
+      if (depId === stickyCauseId && dep?.status !== TaskStatus.Done) {
+        return { rootCauseId: depId, chain: chainTo(depId) };
+      }
+      if (!found) {
+        if (!dep || dep.status === TaskStatus.Failed) {
+          found = { rootCauseId: depId, chain: chainTo(depId) };
+        } else if (
+          dep.status === TaskStatus.Blocked &&
+          dep.blockedBy &&
+          lookup.get(dep.blockedBy)?.status !== TaskStatus.Done
+        ) {
+          found = {
+            rootCauseId: dep.blockedBy,
+            chain: [dep.blockedBy, ...chainTo(depId)],
+          };
+        }
+      }
+      queue.push(depId);
+    }
+  }
+  return found;
+};
+
+/**
+ * Decides which open tasks should become blocked and which blocked tasks can
+ * go back to pending. A blocked task stays blocked until its root cause is
+ * done, even if the cause was retried in the meantime.
+ * @param archivedTasks Tasks of the request that left the active table, so
+ *   dependencies on them are not mistaken for deleted ones
+ */
+export const computeBlockingChanges = (
+  tasks: Task[],
+  archivedTasks: Task[] = [],
+): BlockingChanges => {
+  const lookup = new Map(
+    [...archivedTasks, ...tasks].map((task) => [task.id, task]),
+  );
+  const changes: BlockingChanges = { block: [], unblock: [] };
+
+  for (const task of tasks) {
+    if (
+      task.status !== TaskStatus.Pending &&
+      task.status !== TaskStatus.Blocked
+    ) {
+      continue;
+    }
+
+    const cause = findBlockingCause(task, lookup, task.blockedBy);
+    if (cause && cause.rootCauseId !== task.blockedBy) {
+      changes.block.push({ taskId: task.id, rootCauseId: cause.rootCauseId });
+      lookup.set(task.id, {
+        ...task,
+        status: TaskStatus.Blocked,
+        blockedBy: cause.rootCauseId,
+      });
+    } else if (!cause && task.status === TaskStatus.Blocked) {
+      changes.unblock.push(task.id);
+      lookup.set(task.id, {
+        ...task,
+        status: TaskStatus.Pending,
+        blockedBy: undefined,
+      });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Describes every blocked task as the dependency chain from its root cause
+ */
+export const describeBlockedChains = (
+  tasks: Task[],
+  archivedTasks: Task[] = [],
+): BlockedChain[] => {
+  const lookup = new Map(
+    [...archivedTasks, ...tasks].map((task) => [task.id, task]),
+  );
+  return tasks
+    .filter((task) => task.status === TaskStatus.Blocked && task.blockedBy)
+    .map((task) => {
+      const rootCause = lookup.get(task.blockedBy!);
+      return {
+        taskId: task.id,
+        rootCauseId: task.blockedBy!,
+        rootCauseStatus: rootCause ? rootCause.status : "deleted",
+        chain: findBlockingCause(task, lookup, task.blockedBy)?.chain || [
+          task.blockedBy!,
+          task.id,
+        ],
+      };
+    });
+};
+
+/**
+ * Formats a chain as "task-1 (failed) -> task-2 -> task-3"
+ */
+export const formatBlockedChain = (chain: BlockedChain): string => {
+  const [root, ...rest] = chain.chain;
+  return [`${root} (${chain.rootCauseStatus})`, ...rest].join(" -> ");
+};
@@ -0,0 +1,437 @@
+import { randomUUID } from "node:crypto";
+import chalk from "chalk";
+import { TaskManagerServer } from "./taskManagerServer.js";
+import {
+  ArchiveTaskTreeSchema,
+  ExportRequestSchema,
+  ImportLegacyJsonSchema,
+  MarkTaskDoneSchema,
+  MarkTaskFailedSchema,
+  RetryTaskSchema,
+} from "./schemas.js";
+import { LegacyImportReport, formatImportReport } from "./legacyImport.js";
+import {
+  NotFoundError,
+  Task,
+  TaskCostRollup,
+  TaskStatus,
+} from "./interfaces.js";
+import {
+  ArchivedTreeNode,
+  REQUESTS_RESOURCE_URI,
+  RequestResource,
+  RequestSummary,
+  archiveResourceUri,
+  flattenArchivedTrees,
+  requestResourceUri,
+  taskResourceUri,
+} from "./resources.js";
+import { formatCostTotals } from "./costs.js";
+import { runWithEventContext } from "./eventContext.js";
+import { runWatch } from "./watch.js";
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Minimal argv parser: `--name value`, `--name=value` and bare `--flag`
+ */
+export const parseArgs = (argv: string[]): ParsedArgs => {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positionals, flags };
+};
+
+const stringFlag = (
+  flags: ParsedArgs["flags"],
+  name: string,
+): string | undefined => {
+  const value = flags[name];
+  return typeof value === "string" ? value : undefined;
+};
+
+const USAGE = `Usage: mcp-meta-mind [command]
+
+Without a command the MCP server starts on stdio.
+
+Server options:
+  --transport http [--port <port>] [--host <host>]
+      Serve MCP over HTTP with SSE (default 127.0.0.1:3737); set
+      META_MIND_AUTH_TOKEN to require a bearer token
+  --dashboard [--dashboard-port <port>]
+      Also serve the web dashboard (default 127.0.0.1:3738)
+
+Commands (add --json to any command for machine-readable output):
+  requests
+      List requests with their progress
+  tasks <requestId> [--archived]
+      Show a request's task tree, optionally with its archived tasks
+  show <taskId>
+      Show every field of a task
+  done <taskId> [--details <text>]
+      Mark a task done
+  fail <taskId> [--reason <text>] [--strategy <text>]
+      Mark a task failed
+  retry <taskId>
+      Move a failed task back to pending
+  archive <taskId>
+      Archive a settled task tree
+  export <requestId> [--format markdown|json|csv] [--output <path>] [--active-only]
+      Export a request, to stdout unless --output is given
+  watch [requestId] [--interval <ms>] [--events <n>] [--once]
+      Live task tree of a request (default: all open requests) that
+      refreshes whenever the database changes
+  import-legacy [--tasks <path>] [--completed <path>] [--dry-run]
+      Import pre-0.3.0 tasks.json / completed_tasks.json files`;
+
+type CommandHandler = (
+  taskManagerServer: TaskManagerServer,
+  args: ParsedArgs,
+) => Promise<number>;
+
+const STATUS_COLORS: Record<TaskStatus, (text: string) => string> = {
+  [TaskStatus.Pending]: chalk.white,
+  [TaskStatus.Active]: chalk.blue,
+  [TaskStatus.Done]: chalk.green,
+  [TaskStatus.Failed]: chalk.red,
+  [TaskStatus.RequiresClarification]: chalk.yellow,
+  [TaskStatus.InReview]: chalk.magenta,
+  [TaskStatus.Blocked]: chalk.hex("#ea580c"),
+};
+
+const colorStatus = (status: TaskStatus): string =>
+  (STATUS_COLORS[status] || chalk.white)(status);
+
+const progressBar = (done: number, total: number, width: number = 20) => {
+  const filled = total > 0 ? Math.round((done / total) * width) : 0;
+  return (
+    chalk.green("█".repeat(filled)) + chalk.gray("░".repeat(width - filled))
+  );
+};
+
+const requireArg = (value: string | undefined, name: string): string => {
+  if (!value) {
+    throw new Error(`Missing <${name}>. Run 'mcp-meta-mind help' for usage.`);
+  }
+  return value;
+};
+
+const printJson = (value: unknown) =>
+  console.log(JSON.stringify(value, null, 2));
+
+const readResourceJson = async <T>(
+  taskManagerServer: TaskManagerServer,
+  uri: string,
+): Promise<T> => JSON.parse((await taskManagerServer.readResource(uri)).text);
+
+/**
+ * Prints the tool result as JSON, or its message in colour
+ */
+const printResult = (result: object, json: boolean) => {
+  if (json) {
+    printJson(result);
+    return;
+  }
+  const { status, message } = result as { status: string; message?: string };
+  console.log(`${chalk.green("✔")} ${chalk.bold(status)} ${message || ""}`);
+};
+
+const taskLine = (task: Task): string => {
+  const details = [
+    task.priority,
+    task.type,
+    task.assignee && `@${task.assignee}`,
+  ].filter(Boolean);
+  const reason =
+    task.status === TaskStatus.Blocked && task.blockedBy
+      ? ` (blocked by ${task.blockedBy})`
+      : task.status === TaskStatus.Failed && task.failureReason
+        ? ` (${task.failureReason})`
+        : "";
+  return `${chalk.cyan(task.id)} ${colorStatus(task.status)} ${chalk.gray(details.join(", "))} ${task.title}${chalk.gray(reason)}`;
+};
+
+const printTaskTree = (tasks: Task[]) => {
+  const ids = new Set(tasks.map((task) => task.id));
+  const children = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const parent = task.parentId && ids.has(task.parentId) ? task.parentId : "";
+    children.set(parent, [...(children.get(parent) || []), task]);
+  }
+
+  const visit = (parentId: string, prefix: string) => {
+    const list = children.get(parentId) || [];
+    list.forEach((task, index) => {
+      const last = index === list.length - 1;
+      console.log(`${prefix}${last ? "└─ " : "├─ "}${taskLine(task)}`);
+      visit(task.id, `${prefix}${last ? "   " : "│  "}`);
+    });
+  };
+  visit("", "");
+};
+
+/**
+ * Wraps a tool call taking { requestId, taskId, ... }, resolving the request
+ * from the task so only the task ID has to be typed
+ */
+const taskCommand =
+  (
+    run: (
+      taskManagerServer: TaskManagerServer,
+      params: { requestId: string; taskId: string },
+      flags: ParsedArgs["flags"],
+    ) => Promise<object>,
+  ): CommandHandler =>
+  async (taskManagerServer, { positionals, flags }) => {
+    const taskId = requireArg(positionals[0], "taskId");
+    const requestId = await taskManagerServer.findRequestIdForTask(taskId);
+    printResult(
+      await run(taskManagerServer, { requestId, taskId }, flags),
+      flags.json === true,
+    );
+    return 0;
+  };
+
+const COMMANDS: Record<string, CommandHandler> = {
+  requests: async (taskManagerServer, { flags }) => {
+    const requests = await readResourceJson<RequestSummary[]>(
+      taskManagerServer,
+      REQUESTS_RESOURCE_URI,
+    );
+    if (flags.json === true) {
+      printJson(requests);
+      return 0;
+    }
+    if (requests.length === 0) {
+      console.log(chalk.gray("No requests."));
+      return 0;
+    }
+    for (const request of requests) {
+      // Archived tasks only leave the active table once their tree is settled
+      const total = request.taskCount + request.archivedTaskCount;
+      const done = request.doneCount + request.archivedTaskCount;
+      const state = request.completed
+        ? chalk.green("completed")
+        : chalk.yellow("open");
+      console.log(
+        `${chalk.cyan(request.requestId.padEnd(8))} ${progressBar(done, total)} ${`${done}/${total}`.padStart(7)} ${state.padEnd(20)} ${request.originalRequest}`,
+      );
+    }
+    return 0;
+  },
+  tasks: async (taskManagerServer, { positionals, flags }) => {
+    const requestId = requireArg(positionals[0], "requestId");
+    const request = await readResourceJson<RequestResource>(
+      taskManagerServer,
+      requestResourceUri(requestId),
+    );
+    const archive =
+      flags.archived === true
+        ? await readResourceJson<ArchivedTreeNode[]>(
+            taskManagerServer,
+            archiveResourceUri(requestId),
+          )
+        : undefined;
+    if (flags.json === true) {
+      printJson(archive ? { ...request, archive } : request);
+      return 0;
+    }
+
+    console.log(`${chalk.bold(request.requestId)} ${request.originalRequest}`);
+    if (request.tasks.length === 0) {
+      console.log(chalk.gray("No active tasks."));
+    }
+    printTaskTree(request.tasks);
+    if (archive) {
+      console.log(chalk.bold("\nArchived:"));
+      printTaskTree(flattenArchivedTrees(archive));
+    }
+    return 0;
+  },
+  show: async (taskManagerServer, { positionals, flags }) => {
+    const taskId = requireArg(positionals[0], "taskId");
+    // open_task_details only covers active tasks; the resource also has archived ones
+    const result = (await taskManagerServer
+      .openTaskDetails({ taskId })
+      .catch(async (error) => {
+        if (!(error instanceof NotFoundError)) throw error;
+        return {
+          task: await readResourceJson<Task>(
+            taskManagerServer,
+            taskResourceUri(taskId),
+          ),
+        };
+      })) as { task: Task; costs?: TaskCostRollup };
+    if (flags.json === true) {
+      printJson(result);
+      return 0;
+    }
+
+    const { task, costs } = result;
+    console.log(taskLine(task));
+    const fields: [string, unknown][] = [
+      ["Description", task.description],
+      ["Depends on", task.dependsOn?.join(", ")],
+      ["Parent", task.parentId],
+      ["Subtasks", task.subtaskIds?.join(", ")],
+      ["Environment", task.environmentContext],
+      ["Completed", task.completedDetails],
+      ["Failure", task.failureReason],
+      ["Retry strategy", task.suggestedRetryStrategy],
+      ["Retries", task.retryCount || undefined],
+      ["Rollup", task.rollupReason],
+      [
+        "Lease",
+        task.leaseOwner && `${task.leaseOwner} until ${task.leaseExpiresAt}`,
+      ],
+      ["Artifacts", task.artifactsGenerated?.join(", ")],
+      ["Summary", task.summaryFilePath],
+      ["Cost", costs && formatCostTotals(costs.total)],
+      ["Updated", task.updatedAt],
+    ];
+    for (const [label, value] of fields) {
+      if (value === undefined || value === "" || value === "-") continue;
+      console.log(`${chalk.gray(`${label}:`.padEnd(16))}${value}`);
+    }
+    return 0;
+  },
+  done: taskCommand((taskManagerServer, params, flags) =>
+    taskManagerServer.markTaskDone(
+      MarkTaskDoneSchema.parse({
+        ...params,
+        completedDetails: stringFlag(flags, "details"),
+      }),
+    ),
+  ),
+  fail: taskCommand((taskManagerServer, params, flags) =>
+    taskManagerServer.markTaskFailed(
+      MarkTaskFailedSchema.parse({
+        ...params,
+        reason: stringFlag(flags, "reason"),
+        suggestedRetryStrategy: stringFlag(flags, "strategy"),
+      }),
+    ),
+  ),
+  retry: taskCommand((taskManagerServer, params) =>
+    taskManagerServer.retryTask(RetryTaskSchema.parse(params)),
+  ),
+  archive: taskCommand((taskManagerServer, params) =>
+    taskManagerServer.archiveTaskTree(ArchiveTaskTreeSchema.parse(params)),
+  ),
+  export: async (taskManagerServer, { positionals, flags }) => {
+    const result = (await taskManagerServer.exportRequest(
+      ExportRequestSchema.parse({
+        requestId: requireArg(positionals[0], "requestId"),
+        format: stringFlag(flags, "format"),
+        outputPath: stringFlag(flags, "output"),
+        includeArchived: flags["active-only"] !== true,
+      }),
+    )) as { content?: string; message: string };
+
+    if (flags.json === true) {
+      printJson(result);
+    } else if (result.content !== undefined) {
+      process.stdout.write(result.content);
+    } else {
+      console.log(`${chalk.green("✔")} ${result.message}`);
+    }
+    return 0;
+  },
+  watch: async (taskManagerServer, { positionals, flags }) => {
+    const intervalMs = Number(stringFlag(flags, "interval") || 500);
+    const eventCount = Number(stringFlag(flags, "events") || 8);
+    if (!(intervalMs > 0) || !Number.isInteger(eventCount) || eventCount < 0) {
+      throw new Error("--interval and --events must be positive numbers.");
+    }
+    return runWatch(taskManagerServer, {
+      requestId: positionals[0],
+      intervalMs,
+      eventCount,
+      once: flags.once === true,
+    });
+  },
+  "import-legacy": async (taskManagerServer, { flags }) => {
+    const params = ImportLegacyJsonSchema.parse({
+      tasksFilePath: stringFlag(flags, "tasks"),
+      completedTasksFilePath: stringFlag(flags, "completed"),
+      dryRun: flags["dry-run"] === true,
+    });
+    const result = (await taskManagerServer.importLegacyJson(params)) as {
+      report: LegacyImportReport;
+    };
+
+    if (flags.json === true) {
+      printJson(result);
+      return 0;
+    }
+    console.log(formatImportReport(result.report));
+    return 0;
+  },
+  help: async () => {
+    console.log(USAGE);
+    return 0;
+  },
+};
+
+/**
+ * Whether argv[0] names a CLI command rather than server startup
+ */
+export const isCliCommand = (command: string | undefined): boolean =>
+  command !== undefined &&
+  (Object.hasOwn(COMMANDS, command) ||
+    command === "--help" ||
+    command === "-h");
+
+/**
+ * Runs a CLI command against an initialized TaskManagerServer. Mutations are
+ * recorded in the audit trail like tool calls, with the command as the tool.
+ * @returns Process exit code
+ */
+export const runCli = async (
+  taskManagerServer: TaskManagerServer,
+  argv: string[],
+): Promise<number> => {
+  const [command, ...rest] = argv;
+  const handler = Object.hasOwn(COMMANDS, command)
+    ? COMMANDS[command]
+    : COMMANDS.help;
+
+  await taskManagerServer.init();
+  try {
+    return await runWithEventContext(
+      {
+        operationId: randomUUID(),
+        toolName: `cli:${command}`,
+        actor: process.env.META_MIND_ACTOR || "cli",
+      },
+      () => handler(taskManagerServer, parseArgs(rest)),
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    );
+    return 1;
+  }
+};
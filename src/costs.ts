@@ -0,0 +1,83 @@
+import { Task, CostEntry, CostTotals, TaskCostRollup } from "./interfaces.js";
+
+export const emptyCostTotals = (): CostTotals => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  toolCalls: 0,
+  wallClockMinutes: 0,
+});
+
+/**
+ * Reads the costData column. Rows written before cost tracking hold '{}'.
+ */
+export const parseCostEntries = (costData: string | null): CostEntry[] => {
+  if (!costData) return [];
+  const parsed = JSON.parse(costData);
+  return Array.isArray(parsed?.entries) ? parsed.entries : [];
+};
+
+export const serializeCostEntries = (entries: CostEntry[]): string =>
+  JSON.stringify({ entries });
+
+export const addCostTotals = (a: CostTotals, b: CostTotals): CostTotals => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  toolCalls: a.toolCalls + b.toolCalls,
+  wallClockMinutes: a.wallClockMinutes + b.wallClockMinutes,
+});
+
+export const sumCostEntries = (entries: CostTotals[]): CostTotals =>
+  entries.reduce(addCostTotals, emptyCostTotals());
+
+/**
+ * Computes own and rolled-up costs for every task in the list, following
+ * subtaskIds. Subtasks missing from the list contribute nothing.
+ */
+export const rollupTaskCosts = (tasks: Task[]): Map<string, TaskCostRollup> => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const rollups = new Map<string, TaskCostRollup>();
+
+  const visit = (task: Task, path: Set<string>): CostTotals => {
+    const cached = rollups.get(task.id);
+    if (cached) return cached.total;
+
+    const own = sumCostEntries(task.costEntries || []);
+    let total = own;
+    path.add(task.id);
+    for (const subtaskId of task.subtaskIds || []) {
+      const subtask = byId.get(subtaskId);
+      if (subtask && !path.has(subtaskId)) {
+        total = addCostTotals(total, visit(subtask, path));
+      }
+    }
+    path.delete(task.id);
+
+    rollups.set(task.id, { own, total });
+    return total;
+  };
+
+  tasks.forEach((task) => visit(task, new Set()));
+  return rollups;
+};
+
+/**
+ * Totals for a set of tasks, counting each task's own entries once
+ */
+export const totalCostForTasks = (tasks: Task[]): CostTotals =>
+  sumCostEntries(tasks.flatMap((task) => task.costEntries || []));
+
+const formatCount = (value: number): string =>
+  value >= 10000
+    ? `${(value / 1000).toFixed(1)}k`
+    : value.toLocaleString("en-US");
+
+/**
+ * Short single-line summary for tables, e.g. "12.5k tok, 8 calls, 14 min"
+ */
+export const formatCostTotals = (totals: CostTotals): string => {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (tokens === 0 && totals.toolCalls === 0 && totals.wallClockMinutes === 0) {
+    return "-";
+  }
+  return `${formatCount(tokens)} tok, ${formatCount(totals.toolCalls)} calls, ${+totals.wallClockMinutes.toFixed(1)} min`;
+};
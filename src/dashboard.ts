@@ -0,0 +1,466 @@
+import * as http from "node:http";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { TaskManagerServer } from "./taskManagerServer.js";
+import { InvalidOperationError, NotFoundError } from "./interfaces.js";
+import {
+  MarkTaskDoneSchema,
+  MarkTaskFailedSchema,
+  RetryTaskSchema,
+  SettableTaskStatusEnum,
+  TaskPriorityEnum,
+  TaskStatusEnum,
+  TaskTypeEnum,
+  UpdateTaskSchema,
+} from "./schemas.js";
+import {
+  REQUESTS_RESOURCE_URI,
+  archiveResourceUri,
+  requestResourceUri,
+} from "./resources.js";
+import { runWithEventContext } from "./eventContext.js";
+import { isAllowedHost, isAuthorized, sendJson } from "./httpServer.js";
+
+export const DEFAULT_DASHBOARD_PORT = 3738;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface DashboardOptions {
+  host: string;
+  port: number;
+  authToken?: string; // required on /api/* as a bearer token when set
+}
+
+type TaskAction = (
+  taskManagerServer: TaskManagerServer,
+  params: Record<string, unknown>,
+) => Promise<object>;
+
+// Edits run through the same methods and schemas as the MCP tools
+const TASK_ACTIONS: Record<string, { toolName: string; run: TaskAction }> = {
+  update: {
+    toolName: "update_task",
+    run: (server, params) => server.updateTask(UpdateTaskSchema.parse(params)),
+  },
+  done: {
+    toolName: "mark_task_done",
+    run: (server, params) =>
+      server.markTaskDone(MarkTaskDoneSchema.parse(params)),
+  },
+  fail: {
+    toolName: "mark_task_failed",
+    run: (server, params) =>
+      server.markTaskFailed(MarkTaskFailedSchema.parse(params)),
+  },
+  retry: {
+    toolName: "retry_task",
+    run: (server, params) => server.retryTask(RetryTaskSchema.parse(params)),
+  },
+};
+
+const readJson = async (
+  taskManagerServer: TaskManagerServer,
+  uri: string,
+): Promise<unknown> =>
+  JSON.parse((await taskManagerServer.readResource(uri)).text);
+
+const readBody = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new InvalidOperationError("Request body too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        const text = Buffer.concat(chunks).toString("utf-8");
+        resolve(text ? JSON.parse(text) : {});
+      } catch {
+        reject(new InvalidOperationError("Request body is not valid JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+
+/**
+ * Why a write must be refused as possibly cross-site, or null if it may run.
+ * Browsers can POST text/plain to localhost from any page without a CORS
+ * preflight, so writes need a JSON body (which forces the preflight this
+ * server never answers) and, when the browser names one, this origin.
+ */
+const rejectCrossSiteWrite = (
+  req: http.IncomingMessage,
+): { statusCode: number; error: string } | null => {
+  const contentType = (req.headers["content-type"] || "").split(";")[0];
+  if (contentType.trim().toLowerCase() !== "application/json") {
+    return {
+      statusCode: 415,
+      error: "Writes require Content-Type: application/json.",
+    };
+  }
+
+  const origin = req.headers.origin;
+  if (origin) {
+    let originHost: string | null = null;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      // "null" and other opaque origins never match
+    }
+    if (originHost !== req.headers.host) {
+      return {
+        statusCode: 403,
+        error: `Cross-origin writes are not allowed (origin ${origin}).`,
+      };
+    }
+  }
+  return null;
+};
+
+const statusCodeFor = (error: unknown): number => {
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof InvalidOperationError || error instanceof z.ZodError) {
+    return 400;
+  }
+  return 500;
+};
+
+const errorMessage = (error: unknown): string => {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Serves a browser dashboard: requests with progress, expandable task trees,
+ * filters, the archive, and inline edits. Reads go through the meta-mind://
+ * resources and writes through the tool methods, recorded in the audit trail
+ * as coming from the dashboard.
+ */
+export const startDashboard = (
+  taskManagerServer: TaskManagerServer,
+  options: DashboardOptions,
+): Promise<http.Server> => {
+  const handleApi = async (
+    req: http.IncomingMessage,
+    segments: string[],
+  ): Promise<object> => {
+    const [, resource, requestId, sub, taskId, action] = segments;
+    if (resource !== "requests") {
+      throw new NotFoundError("Not found.");
+    }
+
+    if (req.method === "GET" && segments.length === 2) {
+      return {
+        requests: await readJson(taskManagerServer, REQUESTS_RESOURCE_URI),
+      };
+    }
+    if (req.method === "GET" && segments.length === 3) {
+      return {
+        request: await readJson(
+          taskManagerServer,
+          requestResourceUri(requestId),
+        ),
+        archive: await readJson(
+          taskManagerServer,
+          archiveResourceUri(requestId),
+        ),
+      };
+    }
+    if (req.method === "POST" && segments.length === 6 && sub === "tasks") {
+      if (!Object.hasOwn(TASK_ACTIONS, action)) {
+        throw new NotFoundError(`Unknown task action '${action}'.`);
+      }
+      const handler = TASK_ACTIONS[action];
+      const body = await readBody(req);
+      const params = { ...(body as object), requestId, taskId };
+      return runWithEventContext(
+        {
+          operationId: randomUUID(),
+          toolName: handler.toolName,
+          actor: "dashboard",
+        },
+        () => handler.run(taskManagerServer, params),
+      );
+    }
+    throw new NotFoundError("Not found.");
+  };
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (!isAllowedHost(req, httpServer, options.host)) {
+      sendJson(res, 403, { error: "Host not allowed" });
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/") {
+      res
+        .writeHead(200, { "Content-Type": "text/html; charset=utf-8" })
+        .end(DASHBOARD_HTML);
+      return;
+    }
+
+    const segments = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    if (segments[0] !== "api") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    const rejection = req.method === "GET" ? null : rejectCrossSiteWrite(req);
+    if (rejection) {
+      sendJson(res, rejection.statusCode, { error: rejection.error });
+      return;
+    }
+
+    try {
+      sendJson(res, 200, await handleApi(req, segments));
+    } catch (error) {
+      const statusCode = statusCodeFor(error);
+      if (statusCode === 500) console.error("Dashboard request failed:", error);
+      sendJson(res, statusCode, { error: errorMessage(error) });
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error("Dashboard request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+};
+
+const DASHBOARD_ENUMS = JSON.stringify({
+  statuses: TaskStatusEnum.options,
+  settableStatuses: SettableTaskStatusEnum.options,
+  priorities: TaskPriorityEnum.options,
+  types: TaskTypeEnum.options,
+});
+
+const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Meta Mind Dashboard</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 0; background: #f8fafc; color: #0f172a; }
+  header { display: flex; gap: 12px; align-items: center; padding: 12px 20px; background: #0f172a; color: #fff; position: sticky; top: 0; }
+  header h1 { font-size: 16px; margin: 0 auto 0 0; }
+  select, input, button { font: inherit; }
+  main { padding: 16px 20px; max-width: 1100px; margin: 0 auto; }
+  .request { background: #fff; border: 1px solid #e2e8f0; border-radius: 8px; margin-bottom: 12px; }
+  .request > summary { display: flex; gap: 12px; align-items: center; padding: 10px 14px; cursor: pointer; }
+  .request .text { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .progress { width: 160px; height: 8px; background: #e2e8f0; border-radius: 4px; overflow: hidden; }
+  .progress > div { height: 100%; background: #16a34a; }
+  .body { padding: 0 14px 12px; }
+  ul.tree { list-style: none; padding-left: 18px; margin: 4px 0; }
+  .task { display: flex; gap: 8px; align-items: center; padding: 3px 0; }
+  .task .title { flex: 1; }
+  .task .title[contenteditable="true"] { outline: 1px dashed #cbd5e1; padding: 0 4px; }
+  .badge { padding: 1px 8px; border-radius: 10px; font-size: 12px; background: #e2e8f0; }
+  .badge.done { background: #dcfce7; } .badge.failed { background: #fee2e2; }
+  .badge.active { background: #dbeafe; } .badge.blocked { background: #ffedd5; }
+  .badge.in-review { background: #ede9fe; } .badge.requires-clarification { background: #fef9c3; }
+  .muted { color: #64748b; font-size: 12px; }
+  h3 { font-size: 13px; margin: 12px 0 4px; color: #475569; }
+  #error { color: #dc2626; padding: 0 20px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Meta Mind</h1>
+  <label>Status <select id="status"><option value="">all</option></select></label>
+  <label>Priority <select id="priority"><option value="">all</option></select></label>
+  <label>Type <select id="type"><option value="">all</option></select></label>
+  <label><input type="checkbox" id="archive"> Archive</label>
+  <button id="refresh">Refresh</button>
+</header>
+<div id="error"></div>
+<main id="requests"></main>
+<script>
+const ENUMS = ${DASHBOARD_ENUMS};
+const token = new URLSearchParams(location.search).get("token");
+const expanded = new Set();
+const filters = { status: "", priority: "", type: "" };
+
+const esc = (s) => String(s ?? "").replace(/[&<>"']/g, (c) => "&#" + c.charCodeAt(0) + ";");
+const options = (values, selected) =>
+  values.map((v) => '<option' + (v === selected ? " selected" : "") + ">" + esc(v) + "</option>").join("");
+
+async function api(path, body) {
+  const headers = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = "Bearer " + token;
+  const res = await fetch("/api" + path, body ? { method: "POST", headers, body: JSON.stringify(body) } : { headers });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || res.statusText);
+  return data;
+}
+
+function showError(error) {
+  document.getElementById("error").textContent = error ? error.message : "";
+}
+
+const matches = (task) =>
+  (!filters.status || task.status === filters.status) &&
+  (!filters.priority || task.priority === filters.priority) &&
+  (!filters.type || task.type === filters.type);
+
+// A task stays visible when it or any of its descendants matches the filters
+function visible(task, children) {
+  return matches(task) || (children.get(task.id) || []).some((c) => visible(c, children));
+}
+
+function renderTree(tasks, editable, requestId) {
+  const ids = new Set(tasks.map((t) => t.id));
+  const children = new Map();
+  for (const task of tasks) {
+    const parent = task.parentId && ids.has(task.parentId) ? task.parentId : "";
+    children.set(parent, [...(children.get(parent) || []), task]);
+  }
+  const render = (list) => {
+    const items = list.filter((t) => visible(t, children)).map((t) => {
+      const controls = editable
+        ? '<select data-field="status">' + options(ENUMS.settableStatuses.includes(t.status) ? ENUMS.settableStatuses : [t.status, ...ENUMS.settableStatuses], t.status) + "</select>" +
+          '<select data-field="priority">' + options(ENUMS.priorities, t.priority) + "</select>" +
+          '<select data-field="type"><option value=""></option>' + options(ENUMS.types, t.type) + "</select>" +
+          (t.status === "failed" ? '<button data-action="retry">Retry</button>' : "") +
+          (t.status !== "done" && t.status !== "failed" ? '<button data-action="done">Done</button><button data-action="fail">Fail</button>' : "")
+        : '<span class="muted">' + esc(t.priority) + (t.type ? ", " + esc(t.type) : "") + "</span>";
+      const detail = t.blockedBy ? "blocked by " + t.blockedBy : t.failureReason || t.rollupReason || "";
+      return '<li><div class="task" data-request="' + esc(requestId) + '" data-task="' + esc(t.id) + '">' +
+        '<span class="badge ' + esc(t.status) + '">' + esc(t.status) + "</span>" +
+        '<span class="muted">' + esc(t.id) + "</span>" +
+        '<span class="title"' + (editable ? ' contenteditable="true" data-title="' + esc(t.title) + '"' : "") + ">" + esc(t.title) + "</span>" +
+        (detail ? '<span class="muted">' + esc(detail) + "</span>" : "") + controls + "</div>" +
+        render(children.get(t.id) || []) + "</li>";
+    });
+    return items.length ? '<ul class="tree">' + items.join("") + "</ul>" : "";
+  };
+  return render(children.get("") || []) || '<p class="muted">No matching tasks.</p>';
+}
+
+async function renderRequestBody(element, requestId) {
+  const { request, archive } = await api("/requests/" + encodeURIComponent(requestId));
+  const flatten = (nodes) => nodes.flatMap(({ subtasks, ...task }) => [task, ...flatten(subtasks)]);
+  let html = request.splitDetails ? '<p class="muted">' + esc(request.splitDetails) + "</p>" : "";
+  html += renderTree(request.tasks, true, requestId);
+  if (document.getElementById("archive").checked) {
+    html += "<h3>Archive</h3>" + renderTree(flatten(archive), false, requestId);
+  }
+  element.innerHTML = html;
+}
+
+async function load() {
+  try {
+    const { requests } = await api("/requests");
+    const container = document.getElementById("requests");
+    container.innerHTML = requests.map((r) => {
+      // Archived tasks only leave the active table once their tree is settled
+      const total = r.taskCount + r.archivedTaskCount;
+      const done = r.doneCount + r.archivedTaskCount;
+      const percent = total ? Math.round((done / total) * 100) : 0;
+      return '<details class="request" data-request="' + esc(r.requestId) + '"' + (expanded.has(r.requestId) ? " open" : "") + ">" +
+        "<summary><strong>" + esc(r.requestId) + '</strong><span class="text">' + esc(r.originalRequest) + "</span>" +
+        '<div class="progress" title="' + done + "/" + total + ' done or archived"><div style="width:' + percent + '%"></div></div>' +
+        '<span class="muted">' + done + "/" + total + (r.completed ? " completed" : "") + "</span></summary>" +
+        '<div class="body"></div></details>';
+    }).join("") || '<p class="muted">No requests yet.</p>';
+    await Promise.all([...container.querySelectorAll("details[open]")].map((d) =>
+      renderRequestBody(d.querySelector(".body"), d.dataset.request)));
+    showError(null);
+  } catch (error) {
+    showError(error);
+  }
+}
+
+async function act(row, action, body) {
+  try {
+    await api("/requests/" + encodeURIComponent(row.dataset.request) + "/tasks/" + encodeURIComponent(row.dataset.task) + "/" + action, body);
+    await load();
+  } catch (error) {
+    showError(error);
+  }
+}
+
+for (const [id, values] of [["status", ENUMS.statuses], ["priority", ENUMS.priorities], ["type", ENUMS.types]]) {
+  const select = document.getElementById(id);
+  select.insertAdjacentHTML("beforeend", options(values));
+  select.addEventListener("change", () => { filters[id] = select.value; load(); });
+}
+document.getElementById("archive").addEventListener("change", load);
+document.getElementById("refresh").addEventListener("click", load);
+
+const main = document.getElementById("requests");
+main.addEventListener("toggle", (event) => {
+  const details = event.target;
+  if (!details.classList || !details.classList.contains("request")) return;
+  if (details.open) {
+    expanded.add(details.dataset.request);
+    renderRequestBody(details.querySelector(".body"), details.dataset.request).catch(showError);
+  } else {
+    expanded.delete(details.dataset.request);
+  }
+}, true);
+main.addEventListener("change", (event) => {
+  const field = event.target.dataset.field;
+  const row = event.target.closest(".task");
+  if (!field || !row) return;
+  if (field === "status" && event.target.value === "done") return act(row, "done", {});
+  if (field === "status" && event.target.value === "failed") return act(row, "fail", { reason: prompt("Failure reason?") || undefined });
+  act(row, "update", { [field]: event.target.value || undefined });
+});
+main.addEventListener("click", (event) => {
+  const action = event.target.dataset && event.target.dataset.action;
+  const row = event.target.closest && event.target.closest(".task");
+  if (!action || !row) return;
+  event.preventDefault();
+  if (action === "fail") return act(row, "fail", { reason: prompt("Failure reason?") || undefined });
+  act(row, action, {});
+});
+main.addEventListener("focusout", (event) => {
+  if (!event.target.classList || !event.target.classList.contains("title")) return;
+  const title = event.target.textContent.trim();
+  if (title && title !== event.target.dataset.title) act(event.target.closest(".task"), "update", { title });
+});
+main.addEventListener("keydown", (event) => {
+  if (event.key === "Enter" && event.target.classList.contains("title")) {
+    event.preventDefault();
+    event.target.blur();
+  }
+});
+
+load();
+</script>
+</body>
+</html>
+`;
@@ -2,18 +2,19 @@ import Database from "better-sqlite3";
 import * as path from "node:path";
 import * as os from "node:os";
 import * as fs from "node:fs";
+import { runMigrations } from "./migrations.js";
 
 // Database configuration
 const DB_DIR = path.join(os.homedir(), ".meta_mind");
 const DB_PATH = path.join(DB_DIR, "tasks.db");
 
-let db: Database.Database;
+let db: Database.Database | undefined;
 
 /**
  * Creates the database schema with all necessary tables and indexes
  */
-const createSchema = () => {
-  db.exec(`
+const createSchema = (connection: Database.Database) => {
+  connection.exec(`
         -- Requests table to store high-level request information
         CREATE TABLE IF NOT EXISTS requests (
             requestId TEXT PRIMARY KEY,
@@ -99,7 +100,7 @@ const createSchema = () => {
             ('lastTaskId', '0', datetime('now'));
     `);
 
-  console.log("Database schema initialized successfully.");
+  console.error("Database schema initialized successfully.");
 };
 
 /**
@@ -111,6 +112,7 @@ export const getDb = (): Database.Database => {
     try {
       // Ensure directory exists
       fs.mkdirSync(DB_DIR, { recursive: true });
+      const isNewDatabase = !dbExists();
 
       // Create database connection
       db = new Database(DB_PATH);
@@ -118,15 +120,22 @@ export const getDb = (): Database.Database => {
       // Set pragmas for better performance and reliability
       db.pragma("journal_mode = WAL"); // Write-Ahead Logging for better concurrency
       db.pragma("foreign_keys = ON"); // Enforce foreign key constraints
+      db.pragma("busy_timeout = 5000"); // Wait for other agents' write transactions
       db.pragma("synchronous = NORMAL"); // Good balance of safety and performance
       db.pragma("cache_size = 10000"); // Larger cache for better performance
 
       // Create schema
-      createSchema();
+      createSchema(db);
 
-      console.log(`Database initialized at: ${DB_PATH}`);
+      // Apply pending schema migrations
+      runMigrations(db, DB_PATH, isNewDatabase);
+
+      console.error(`Database initialized at: ${DB_PATH}`);
     } catch (error) {
       console.error("Failed to initialize database:", error);
+      // Never hand out a connection whose schema could not be verified
+      db?.close();
+      db = undefined;
       throw error;
     }
   }
@@ -139,7 +148,8 @@ export const getDb = (): Database.Database => {
 export const closeDb = (): void => {
   if (db) {
     db.close();
-    console.log("Database connection closed.");
+    db = undefined;
+    console.error("Database connection closed.");
   }
 };
 
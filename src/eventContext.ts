@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface EventContext {
+  operationId?: string;
+  toolName?: string;
+  actor?: string;
+  note?: string;
+}
+
+/**
+ * Tool name of lease expiries. Any call may expire stale leases on the side,
+ * so they are recorded as their own operation, which undo skips.
+ */
+export const LEASE_EXPIRY_TOOL_NAME = "lease_expiry";
+
+const storage = new AsyncLocalStorage<EventContext>();
+
+/**
+ * Runs fn with the given context attached to every task event it records
+ */
+export const runWithEventContext = <T>(context: EventContext, fn: () => T): T =>
+  storage.run(context, fn);
+
+/**
+ * Runs fn with an extra note (e.g. why a side effect happened) on its events
+ */
+export const withEventNote = <T>(note: string, fn: () => T): T =>
+  storage.run({ ...getEventContext(), note }, fn);
+
+/**
+ * Gets the context of the current tool call, if any
+ */
+export const getEventContext = (): EventContext => storage.getStore() || {};
@@ -0,0 +1,254 @@
+import {
+  Task,
+  TaskStatus,
+  ArchivedTask,
+  RequestExport,
+  ExportFormat,
+} from "./interfaces.js";
+
+const EXPORT_FORMAT_VERSION = 1;
+
+const CSV_COLUMNS = [
+  "taskId",
+  "requestId",
+  "location",
+  "parentId",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "type",
+  "dependsOn",
+  "subtaskIds",
+  "failureReason",
+  "suggestedRetryStrategy",
+  "completedDetails",
+  "artifactsGenerated",
+  "environmentContext",
+  "summaryFilePath",
+  "createdAt",
+  "updatedAt",
+  "archivedAt",
+] as const;
+
+interface TaskNode {
+  task: Task;
+  children: TaskNode[];
+}
+
+/**
+ * Builds the parent/subtask forest, keeping subtaskIds order where possible.
+ * Tasks whose parent is not part of the list become roots.
+ */
+const buildTaskForest = (tasks: Task[]): TaskNode[] => {
+  const nodes = new Map<string, TaskNode>();
+  tasks.forEach((task) => nodes.set(task.id, { task, children: [] }));
+
+  const roots: TaskNode[] = [];
+  for (const task of tasks) {
+    const node = nodes.get(task.id)!;
+    const parent = task.parentId ? nodes.get(task.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  for (const node of nodes.values()) {
+    const order = node.task.subtaskIds || [];
+    node.children.sort((a, b) => {
+      const ia = order.indexOf(a.task.id);
+      const ib = order.indexOf(b.task.id);
+      return (ia === -1 ? order.length : ia) - (ib === -1 ? order.length : ib);
+    });
+  }
+
+  return roots;
+};
+
+const indentBlock = (text: string, indent: string): string =>
+  text
+    .trim()
+    .split("\n")
+    .map((line, i) => (i === 0 ? line : `${indent}${line}`))
+    .join("\n");
+
+const renderMarkdownTaskNode = (
+  node: TaskNode,
+  depth: number,
+  lines: string[],
+): void => {
+  const { task } = node;
+  const indent = "  ".repeat(depth);
+  const detailIndent = `${indent}  `;
+  const checkbox = task.status === TaskStatus.Done ? "[x]" : "[ ]";
+  const meta = [task.status, task.priority, task.type]
+    .filter(Boolean)
+    .join(" · ");
+
+  lines.push(
+    `${indent}- ${checkbox} \`${task.id}\` **${task.title}** _(${meta})_`,
+  );
+
+  const details: string[] = [];
+  if (task.description) {
+    details.push(indentBlock(task.description, `${detailIndent}  `));
+  }
+  if (task.dependsOn && task.dependsOn.length > 0) {
+    details.push(
+      `Depends on: ${task.dependsOn.map((id) => `\`${id}\``).join(", ")}`,
+    );
+  }
+  if (task.completedDetails) {
+    details.push(
+      `Completed: ${indentBlock(task.completedDetails, `${detailIndent}  `)}`,
+    );
+  }
+  if (task.failureReason) {
+    const retry = task.suggestedRetryStrategy
+      ? ` (retry strategy: ${task.suggestedRetryStrategy})`
+      : "";
+    details.push(
+      `Failed: ${indentBlock(task.failureReason, `${detailIndent}  `)}${retry}`,
+    );
+  }
+  if (task.artifactsGenerated && task.artifactsGenerated.length > 0) {
+    details.push(
+      `Artifacts: ${task.artifactsGenerated.map((a) => `\`${a}\``).join(", ")}`,
+    );
+  }
+  if (task.environmentContext) {
+    details.push(
+      `Environment: ${indentBlock(task.environmentContext, `${detailIndent}  `)}`,
+    );
+  }
+  if (task.summaryFilePath) {
+    details.push(
+      `Summary: [${task.id} completion summary](${encodeURI(task.summaryFilePath)})`,
+    );
+  }
+  if ((task as ArchivedTask).archivedAt) {
+    details.push(`Archived: ${(task as ArchivedTask).archivedAt}`);
+  }
+  details.forEach((detail) => lines.push(`${detailIndent}- ${detail}`));
+
+  node.children.forEach((child) =>
+    renderMarkdownTaskNode(child, depth + 1, lines),
+  );
+};
+
+/**
+ * Renders a request as a Markdown report with nested checklists
+ */
+export const renderRequestMarkdown = (data: RequestExport): string => {
+  const { request, archivedTasks } = data;
+  const allTasks = [...request.tasks, ...archivedTasks];
+  const doneCount = allTasks.filter((t) => t.status === TaskStatus.Done).length;
+  const failedCount = allTasks.filter(
+    (t) => t.status === TaskStatus.Failed,
+  ).length;
+
+  const lines = [
+    `# ${request.requestId}: ${request.originalRequest.split("\n")[0]}`,
+    "",
+    `- **Status:** ${request.completed ? "Completed" : "In progress"}`,
+    `- **Progress:** ${doneCount}/${allTasks.length} task(s) done, ${failedCount} failed`,
+    `- **Created:** ${request.createdAt}`,
+    `- **Updated:** ${request.updatedAt}`,
+    "",
+  ];
+
+  if (request.originalRequest.includes("\n")) {
+    lines.push("## Original Request", "", request.originalRequest.trim(), "");
+  }
+  if (request.splitDetails) {
+    lines.push("## Split Details", "", request.splitDetails.trim(), "");
+  }
+
+  lines.push("## Active Tasks", "");
+  if (request.tasks.length === 0) {
+    lines.push("_No active tasks._");
+  } else {
+    buildTaskForest(request.tasks).forEach((node) =>
+      renderMarkdownTaskNode(node, 0, lines),
+    );
+  }
+  lines.push("");
+
+  if (archivedTasks.length > 0) {
+    lines.push("## Archived Tasks", "");
+    buildTaskForest(archivedTasks).forEach((node) =>
+      renderMarkdownTaskNode(node, 0, lines),
+    );
+    lines.push("");
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Renders a request as a lossless JSON document
+ */
+export const renderRequestJson = (data: RequestExport): string => {
+  const { tasks, ...request } = data.request;
+  return JSON.stringify(
+    {
+      exportFormatVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      request,
+      tasks,
+      archivedTasks: data.archivedTasks,
+    },
+    null,
+    2,
+  );
+};
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  const text = Array.isArray(value) ? value.join(";") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders a request as a flat CSV with one row per active or archived task
+ */
+export const renderRequestCsv = (data: RequestExport): string => {
+  const rows = [CSV_COLUMNS.join(",")];
+  const requestId = data.request.requestId;
+
+  const pushTask = (task: Task, location: "active" | "archived") => {
+    const values: Record<string, unknown> = {
+      ...task,
+      taskId: task.id,
+      requestId,
+      location,
+      archivedAt: (task as ArchivedTask).archivedAt,
+    };
+    rows.push(CSV_COLUMNS.map((column) => csvCell(values[column])).join(","));
+  };
+
+  data.request.tasks.forEach((task) => pushTask(task, "active"));
+  data.archivedTasks.forEach((task) => pushTask(task, "archived"));
+
+  return rows.join("\r\n") + "\r\n";
+};
+
+/**
+ * Renders a request export in the requested format
+ */
+export const renderRequestExport = (
+  data: RequestExport,
+  format: ExportFormat,
+): string => {
+  switch (format) {
+    case "json":
+      return renderRequestJson(data);
+    case "csv":
+      return renderRequestCsv(data);
+    case "markdown":
+    default:
+      return renderRequestMarkdown(data);
+  }
+};
@@ -0,0 +1,301 @@
+import { Task, TaskStatus, TaskPriority } from "./interfaces.js";
+
+export type GraphFormat = "mermaid" | "dot";
+
+export interface GraphOptions {
+  highlightCriticalPath?: boolean;
+  highlightBlocked?: boolean;
+  archivedTasks?: Task[]; // not drawn; archived done dependencies count as met
+}
+
+export interface GraphAnalysis {
+  criticalPath: string[]; // task IDs, first to last
+  blockedTaskIds: string[];
+}
+
+const STATUS_COLORS: Record<TaskStatus, { fill: string; stroke: string }> = {
+  [TaskStatus.Pending]: { fill: "#f5f5f5", stroke: "#9e9e9e" },
+  [TaskStatus.Active]: { fill: "#dbeafe", stroke: "#2563eb" },
+  [TaskStatus.Done]: { fill: "#dcfce7", stroke: "#16a34a" },
+  [TaskStatus.Failed]: { fill: "#fee2e2", stroke: "#dc2626" },
+  [TaskStatus.RequiresClarification]: { fill: "#fef9c3", stroke: "#ca8a04" },
+  [TaskStatus.InReview]: { fill: "#ede9fe", stroke: "#7c3aed" },
+  [TaskStatus.Blocked]: { fill: "#ffedd5", stroke: "#ea580c" },
+};
+
+// Border width by priority; status owns the colours
+const PRIORITY_STROKE_WIDTH: Record<TaskPriority, number> = {
+  [TaskPriority.Low]: 1,
+  [TaskPriority.Medium]: 2,
+  [TaskPriority.High]: 3,
+  [TaskPriority.Critical]: 4,
+};
+
+const CRITICAL_PATH_COLOR = "#e11d48";
+
+const TERMINAL_STATUSES = [TaskStatus.Done, TaskStatus.Failed];
+
+const nodeId = (taskId: string): string =>
+  taskId.replace(/[^A-Za-z0-9_]/g, "_");
+
+const nodeLabel = (task: Task): string => {
+  const title =
+    task.title.length > 40 ? task.title.substring(0, 37) + "..." : task.title;
+  return `${task.id}: ${title}`;
+};
+
+/**
+ * Longest chain of dependsOn edges through tasks that are not done yet, i.e.
+ * the sequence of remaining work that cannot be parallelised.
+ */
+const findCriticalPath = (tasks: Task[]): string[] => {
+  const remaining = new Map(
+    tasks
+      .filter((task) => task.status !== TaskStatus.Done)
+      .map((task) => [task.id, task]),
+  );
+  const longest = new Map<string, string[]>();
+
+  const visit = (task: Task, path: Set<string>): string[] => {
+    const cached = longest.get(task.id);
+    if (cached) return cached;
+
+    path.add(task.id);
+    let best: string[] = [];
+    for (const depId of task.dependsOn || []) {
+      const dep = remaining.get(depId);
+      if (!dep || path.has(depId)) continue; // skip done deps and cycles
+      const chain = visit(dep, path);
+      if (chain.length > best.length) best = chain;
+    }
+    path.delete(task.id);
+
+    const chain = [...best, task.id];
+    longest.set(task.id, chain);
+    return chain;
+  };
+
+  let criticalPath: string[] = [];
+  for (const task of remaining.values()) {
+    const chain = visit(task, new Set());
+    if (chain.length > criticalPath.length) criticalPath = chain;
+  }
+  // A single task is not a path worth highlighting
+  return criticalPath.length > 1 ? criticalPath : [];
+};
+
+/**
+ * Open tasks that are waiting on a dependency that is not done
+ */
+const findBlockedTasks = (tasks: Task[], archivedTasks: Task[]): string[] => {
+  const byId = new Map(
+    [...archivedTasks, ...tasks].map((task) => [task.id, task]),
+  );
+  return tasks
+    .filter(
+      (task) =>
+        !TERMINAL_STATUSES.includes(task.status) &&
+        (task.dependsOn || []).some(
+          (depId) => byId.get(depId)?.status !== TaskStatus.Done,
+        ),
+    )
+    .map((task) => task.id);
+};
+
+/**
+ * @param archivedTasks Tasks of the request that left the active table, so
+ *   dependencies that were done and archived do not block
+ */
+export const analyzeTaskGraph = (
+  tasks: Task[],
+  archivedTasks: Task[] = [],
+): GraphAnalysis => ({
+  criticalPath: findCriticalPath(tasks),
+  blockedTaskIds: findBlockedTasks(tasks, archivedTasks),
+});
+
+interface GraphModel {
+  byId: Map<string, Task>;
+  roots: Task[]; // tasks whose parent is not in the graph
+  edges: [string, string][]; // [dependency, dependent]
+  criticalNodes: Set<string>;
+  criticalEdges: Set<string>; // "from->to"
+  blockedNodes: Set<string>;
+}
+
+const buildGraphModel = (tasks: Task[], options: GraphOptions): GraphModel => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const analysis = analyzeTaskGraph(tasks, options.archivedTasks);
+  const criticalPath = options.highlightCriticalPath
+    ? analysis.criticalPath
+    : [];
+
+  return {
+    byId,
+    roots: tasks.filter((task) => !task.parentId || !byId.has(task.parentId)),
+    edges: tasks.flatMap((task) =>
+      (task.dependsOn || [])
+        .filter((depId) => byId.has(depId))
+        .map((depId) => [depId, task.id] as [string, string]),
+    ),
+    criticalNodes: new Set(criticalPath),
+    criticalEdges: new Set(
+      criticalPath.slice(1).map((id, i) => `${criticalPath[i]}->${id}`),
+    ),
+    blockedNodes: new Set(
+      options.highlightBlocked ? analysis.blockedTaskIds : [],
+    ),
+  };
+};
+
+const childrenOf = (task: Task, byId: Map<string, Task>): Task[] =>
+  (task.subtaskIds || [])
+    .map((id) => byId.get(id))
+    .filter((child): child is Task => child !== undefined);
+
+const mermaidText = (text: string): string =>
+  text.replace(/"/g, "#quot;").replace(/\n/g, " ");
+
+/**
+ * Renders the tasks as a Mermaid flowchart. Parents become subgraphs holding
+ * their subtasks; dependency edges point from a dependency to its dependent.
+ */
+export const renderMermaid = (
+  tasks: Task[],
+  options: GraphOptions = {},
+): string => {
+  const model = buildGraphModel(tasks, options);
+  const lines = ["flowchart TD"];
+  const visited = new Set<string>();
+
+  const renderTask = (task: Task, indent: string) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+
+    const node = `${indent}${nodeId(task.id)}["${mermaidText(nodeLabel(task))}"]`;
+    const children = childrenOf(task, model.byId);
+    if (children.length === 0) {
+      lines.push(node);
+      return;
+    }
+
+    lines.push(
+      `${indent}subgraph ${nodeId(task.id)}_group["${mermaidText(task.title)}"]`,
+    );
+    lines.push(`  ${node}`);
+    children.forEach((child) => renderTask(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+
+  model.roots.forEach((task) => renderTask(task, "  "));
+
+  const criticalLinks: number[] = [];
+  model.edges.forEach(([from, to], index) => {
+    const critical = model.criticalEdges.has(`${from}->${to}`);
+    if (critical) criticalLinks.push(index);
+    lines.push(`  ${nodeId(from)} ${critical ? "==>" : "-->"} ${nodeId(to)}`);
+  });
+
+  lines.push("");
+  for (const [status, colors] of Object.entries(STATUS_COLORS)) {
+    lines.push(
+      `  classDef ${nodeId(status)} fill:${colors.fill},stroke:${colors.stroke}`,
+    );
+  }
+  for (const [priority, width] of Object.entries(PRIORITY_STROKE_WIDTH)) {
+    lines.push(`  classDef priority_${priority} stroke-width:${width}px`);
+  }
+  lines.push(
+    `  classDef critical stroke:${CRITICAL_PATH_COLOR},stroke-width:4px`,
+  );
+  lines.push("  classDef blockedHighlight stroke-dasharray:5 5");
+
+  for (const task of model.byId.values()) {
+    const classes = [nodeId(task.status), `priority_${task.priority}`];
+    if (model.criticalNodes.has(task.id)) classes.push("critical");
+    if (model.blockedNodes.has(task.id)) classes.push("blockedHighlight");
+    classes.forEach((cls) => lines.push(`  class ${nodeId(task.id)} ${cls}`));
+  }
+  if (criticalLinks.length > 0) {
+    lines.push(
+      `  linkStyle ${criticalLinks.join(",")} stroke:${CRITICAL_PATH_COLOR},stroke-width:3px`,
+    );
+  }
+
+  return lines.join("\n");
+};
+
+const dotText = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, " ");
+
+/**
+ * Renders the tasks as a Graphviz DOT digraph. Parents become clusters holding
+ * their subtasks; dependency edges point from a dependency to its dependent.
+ */
+export const renderDot = (
+  tasks: Task[],
+  options: GraphOptions = {},
+): string => {
+  const model = buildGraphModel(tasks, options);
+  const lines = [
+    "digraph tasks {",
+    "  rankdir=TB;",
+    "  compound=true;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+  const visited = new Set<string>();
+
+  const nodeLine = (task: Task, indent: string): string => {
+    const colors = STATUS_COLORS[task.status] || STATUS_COLORS.pending;
+    const critical = model.criticalNodes.has(task.id);
+    const blocked = model.blockedNodes.has(task.id);
+    const attrs = [
+      `label="${dotText(nodeLabel(task))}\\n${task.status}, ${task.priority}"`,
+      `fillcolor="${colors.fill}"`,
+      `color="${critical ? CRITICAL_PATH_COLOR : colors.stroke}"`,
+      `penwidth=${critical ? 4 : PRIORITY_STROKE_WIDTH[task.priority]}`,
+    ];
+    if (blocked) attrs.push('style="rounded,filled,dashed"');
+    return `${indent}${nodeId(task.id)} [${attrs.join(", ")}];`;
+  };
+
+  const renderTask = (task: Task, indent: string) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+
+    const children = childrenOf(task, model.byId);
+    if (children.length === 0) {
+      lines.push(nodeLine(task, indent));
+      return;
+    }
+
+    lines.push(`${indent}subgraph cluster_${nodeId(task.id)} {`);
+    lines.push(`${indent}  label="${dotText(task.title)}";`);
+    lines.push(`${indent}  style="rounded,dashed";`);
+    lines.push(nodeLine(task, `${indent}  `));
+    children.forEach((child) => renderTask(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+
+  model.roots.forEach((task) => renderTask(task, "  "));
+
+  for (const [from, to] of model.edges) {
+    const critical = model.criticalEdges.has(`${from}->${to}`);
+    lines.push(
+      `  ${nodeId(from)} -> ${nodeId(to)}${critical ? ` [color="${CRITICAL_PATH_COLOR}", penwidth=3]` : ""};`,
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+};
+
+/**
+ * Renders the tasks in the given format
+ */
+export const renderTaskGraph = (
+  tasks: Task[],
+  format: GraphFormat,
+  options: GraphOptions = {},
+): string =>
+  format === "dot" ? renderDot(tasks, options) : renderMermaid(tasks, options);
@@ -0,0 +1,144 @@
+import * as http from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3737;
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string; // required as "Authorization: Bearer <token>" when set
+}
+
+export const isAuthorized = (req: http.IncomingMessage, authToken?: string) => {
+  if (!authToken) return true;
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  const actual = Buffer.from(req.headers.authorization || "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+
+/**
+ * Whether the Host header names this machine on the port the server is bound
+ * to. Without the check, a DNS rebinding page whose domain resolves to
+ * 127.0.0.1 would count as same-origin and could read and write tasks.
+ * @param host The configured bind address, allowed too unless it is a wildcard
+ */
+export const isAllowedHost = (
+  req: http.IncomingMessage,
+  httpServer: http.Server,
+  host: string,
+): boolean => {
+  const address = httpServer.address();
+  if (!address || typeof address === "string") return false;
+  const hostnames = [...LOOPBACK_HOSTNAMES];
+  if (!WILDCARD_HOSTS.includes(host)) {
+    hostnames.push(host.includes(":") ? `[${host}]` : host);
+  }
+  const requested = (req.headers.host || "").toLowerCase();
+  return hostnames.some(
+    (hostname) => requested === `${hostname.toLowerCase()}:${address.port}`,
+  );
+};
+
+export const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: object,
+) => {
+  res
+    .writeHead(statusCode, { "Content-Type": "application/json" })
+    .end(JSON.stringify(body));
+};
+
+/**
+ * Serves MCP over HTTP with Server-Sent Events. A client opens GET /sse and
+ * posts its messages to the endpoint announced on that stream. Every stream
+ * gets its own MCP server from createServer, so subscriptions stay per client,
+ * while all of them share one TaskManagerServer and database connection.
+ * GET /health is left unauthenticated and open to any Host for probes.
+ */
+export const startHttpServer = (
+  createServer: () => Server,
+  options: HttpServerOptions,
+): Promise<http.Server> => {
+  const sessions = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+      sendJson(res, 200, {
+        status: "ok",
+        sessions: sessions.size,
+        uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      });
+      return;
+    }
+
+    if (!isAllowedHost(req, httpServer, options.host)) {
+      sendJson(res, 403, { error: "Host not allowed" });
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === SSE_PATH) {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      const server = createServer();
+      const onServerClose = server.onclose;
+      server.onclose = () => {
+        sessions.delete(transport.sessionId);
+        onServerClose?.();
+      };
+      sessions.set(transport.sessionId, transport);
+      await server.connect(transport);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+      const transport = sessions.get(url.searchParams.get("sessionId") || "");
+      if (!transport) {
+        sendJson(res, 404, { error: "Unknown or closed session" });
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error("HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve(httpServer);
+    });
+  });
+};
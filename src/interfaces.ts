@@ -4,6 +4,14 @@ export enum TaskStatus {
   Done = "done",
   Failed = "failed",
   RequiresClarification = "requires-clarification",
+  InReview = "in-review",
+  Blocked = "blocked", // derived: a dependency failed or was deleted
+}
+
+export enum AgentStatus {
+  Available = "available",
+  Paused = "paused",
+  Offline = "offline",
 }
 
 export enum TaskPriority {
@@ -24,6 +32,42 @@ export enum TaskType {
   Generic = "generic",
 }
 
+export interface FailureRecord {
+  attempt: number;
+  reason: string;
+  suggestedRetryStrategy?: string;
+  failedAt: string;
+}
+
+export type FeedbackKind = "submission" | "approve" | "request-changes";
+
+export interface FeedbackEntry {
+  kind: FeedbackKind;
+  round: number; // review round, starting at 1 with the first submission
+  comment?: string;
+  author?: string;
+  completedDetails?: string; // submissions only
+  artifactsGenerated?: string[]; // submissions only
+  createdAt: string;
+}
+
+export interface CostTotals {
+  inputTokens: number;
+  outputTokens: number;
+  toolCalls: number;
+  wallClockMinutes: number;
+}
+
+export interface CostEntry extends CostTotals {
+  note?: string;
+  recordedAt: string;
+}
+
+export interface TaskCostRollup {
+  own: CostTotals; // entries recorded on the task itself
+  total: CostTotals; // own plus all descendants
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -40,18 +84,71 @@ export interface Task {
   artifactsGenerated?: string[];
   environmentContext?: string;
   summaryFilePath?: string;
+  retryCount?: number;
+  failureHistory?: FailureRecord[];
+  costEntries?: CostEntry[];
+  feedbackHistory?: FeedbackEntry[];
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+  assignee?: string; // agentId
+  blockedBy?: string; // root-cause taskId while blocked
+  rollupPolicy?: RollupPolicy; // unset = all-must-succeed
+  rollupReason?: string; // why the parent was auto-completed or failed
   createdAt: string;
   updatedAt: string;
 }
 
+export type RollupPolicy = "all-must-succeed" | "best-effort" | "fail-fast";
+
+export type SchedulingStrategy =
+  "priority" | "critical-path" | "fifo" | "depth-first";
+
 export interface RequestEntry {
   requestId: string;
   originalRequest: string;
   splitDetails: string;
   tasks: Task[];
   completed: boolean;
+  schedulingStrategy?: SchedulingStrategy; // unset = server default
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ArchivedTask extends Task {
+  originalRequestId: string;
+  archivedAt: string;
+}
+
+export interface RequestExport {
+  request: RequestEntry;
+  archivedTasks: ArchivedTask[];
+}
+
+export type ExportFormat = "markdown" | "json" | "csv";
+
+export interface TaskSearchFilters {
+  status?: TaskStatus;
+  type?: TaskType;
+  priority?: TaskPriority;
+  requestId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  scope?: "active" | "archived" | "all";
+  limit?: number;
+}
+
+export interface TaskSearchResult {
+  taskId: string;
+  requestId: string;
+  location: "active" | "archived";
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  type?: TaskType;
   createdAt: string;
   updatedAt: string;
+  rank: number;
+  snippet: string;
 }
 
 export interface TaskManagerFile {
@@ -97,6 +194,13 @@ export interface TaskRow {
   costData: string | null; // JSON
   feedbackHistory: string | null; // JSON
   retryCount: number;
+  failureHistory: string | null; // JSON
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  assignee: string | null;
+  blockedBy: string | null;
+  rollupPolicy: string | null;
+  rollupReason: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -106,6 +210,7 @@ export interface RequestRow {
   originalRequest: string;
   splitDetails: string | null;
   completed: boolean;
+  schedulingStrategy: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -131,11 +236,174 @@ export interface ArchivedTaskRow {
   costData: string | null; // JSON
   feedbackHistory: string | null; // JSON
   retryCount: number;
+  failureHistory: string | null; // JSON
+  assignee: string | null;
+  rollupPolicy: string | null;
+  rollupReason: string | null;
   createdAt: string;
   updatedAt: string;
   archivedAt: string;
 }
 
+export type TaskEventType =
+  | "task_created"
+  | "task_updated"
+  | "task_deleted"
+  | "task_archived"
+  | "task_restored"
+  | "request_created"
+  | "request_updated"
+  | "request_deleted"
+  | "question_created"
+  | "question_updated"
+  | "question_deleted"
+  | "agent_created"
+  | "agent_updated"
+  | "template_created"
+  | "template_updated";
+
+// A committed change to a recorded row, as seen by change listeners
+export interface RepositoryChange {
+  eventType: TaskEventType;
+  requestId: string | null;
+  taskId: string | null;
+}
+
+export type RepositoryChangeListener = (change: RepositoryChange) => void;
+
+export interface TaskEventRow {
+  eventId: number;
+  requestId: string | null;
+  taskId: string | null;
+  eventType: string;
+  toolName: string | null;
+  actor: string | null;
+  note: string | null;
+  changes: string | null; // JSON
+  beforeState: string | null; // JSON
+  afterState: string | null; // JSON
+  createdAt: string;
+  operationId: string | null;
+  undoneBy: string | null;
+}
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface TaskEvent {
+  eventId: number;
+  operationId?: string;
+  requestId?: string;
+  taskId?: string;
+  eventType: TaskEventType;
+  toolName?: string;
+  actor?: string;
+  note?: string;
+  changes: Record<string, FieldChange>;
+  createdAt: string;
+  undoneBy?: string;
+}
+
+export interface UndoneOperation {
+  operationId: string;
+  toolName?: string;
+  actor?: string;
+  eventCount: number;
+  createdAt: string;
+}
+
+export interface ClarificationQuestionRow {
+  questionId: string;
+  requestId: string;
+  taskId: string;
+  question: string;
+  context: string | null;
+  askedBy: string | null;
+  answer: string | null;
+  answeredBy: string | null;
+  createdAt: string;
+  answeredAt: string | null;
+}
+
+export interface ClarificationQuestion {
+  questionId: string;
+  requestId: string;
+  taskId: string;
+  taskTitle?: string;
+  question: string;
+  context?: string;
+  askedBy?: string;
+  answer?: string;
+  answeredBy?: string;
+  createdAt: string;
+  answeredAt?: string;
+}
+
+export interface Agent {
+  agentId: string;
+  name: string;
+  taskTypes: TaskType[]; // empty = any type
+  maxConcurrency: number;
+  status: AgentStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AgentRow {
+  agentId: string;
+  name: string;
+  taskTypes: string | null; // JSON
+  maxConcurrency: number;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlanTemplateTask {
+  key: string; // template-local ID, remapped to a fresh task ID on instantiation
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  type?: TaskType;
+  dependsOn: string[]; // keys
+  parentKey?: string;
+  artifactsGenerated?: string[];
+  environmentContext?: string;
+  rollupPolicy?: RollupPolicy;
+}
+
+export interface PlanTemplate {
+  name: string;
+  description?: string;
+  originalRequest: string;
+  splitDetails: string;
+  tasks: PlanTemplateTask[]; // parents before their subtasks
+  variables: string[]; // {{placeholder}} names used anywhere in the template
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlanTemplateRow {
+  name: string;
+  description: string | null;
+  originalRequest: string;
+  splitDetails: string;
+  tasks: string; // JSON
+  variables: string; // JSON
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AgentWorkload {
+  agentId: string;
+  active: number;
+  open: number; // assigned but not started or finished
+  done: number;
+  failed: number;
+}
+
 export interface MetadataRow {
   key: string;
   value: string;
@@ -155,3 +423,10 @@ export class InvalidOperationError extends Error {
     this.name = "InvalidOperationError";
   }
 }
+
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
@@ -0,0 +1,475 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { TaskRepository } from "./taskRepository.js";
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  CostEntry,
+  RequestEntry,
+  TaskManagerFile,
+  CompletedTasksFile,
+  ArchivedTaskBundle,
+  NotFoundError,
+  InvalidOperationError,
+} from "./interfaces.js";
+
+// Location used by the pre-0.3.0 JSON storage
+const LEGACY_DATA_DIR = path.join(
+  os.homedir(),
+  ".meta_mind",
+  "mcp_task_manager_data",
+);
+export const DEFAULT_LEGACY_TASKS_FILE = path.join(
+  LEGACY_DATA_DIR,
+  "tasks.json",
+);
+export const DEFAULT_LEGACY_COMPLETED_TASKS_FILE = path.join(
+  LEGACY_DATA_DIR,
+  "completed_tasks.json",
+);
+
+export interface LegacyImportOptions {
+  tasksFilePath?: string;
+  completedTasksFilePath?: string;
+  dryRun?: boolean;
+}
+
+export interface LegacyImportConflict {
+  kind: "request" | "task";
+  id: string;
+  source: string;
+  reason: string;
+}
+
+export interface LegacyImportReport {
+  dryRun: boolean;
+  tasksFile: string | null;
+  completedTasksFile: string | null;
+  importedRequestIds: string[];
+  importedTaskCount: number;
+  importedArchivedTaskCount: number;
+  skippedRequestIds: string[];
+  skippedArchiveBundles: number;
+  conflicts: LegacyImportConflict[];
+  warnings: string[];
+  lastRequestId: number;
+  lastTaskId: number;
+}
+
+interface PlannedRequest {
+  request: RequestEntry;
+  tasks: Task[];
+}
+
+interface PlannedBundle {
+  bundle: ArchivedTaskBundle;
+  tasks: Task[];
+}
+
+const TASK_STATUSES = new Set<string>(Object.values(TaskStatus));
+const TASK_PRIORITIES = new Set<string>(Object.values(TaskPriority));
+
+/**
+ * Extracts the numeric part of a generated ID such as 'req-12' or 'task-7'
+ */
+const parseNumericId = (id: string, prefix: string): number => {
+  const match = new RegExp(`^${prefix}-(\\d+)$`).exec(id);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+/**
+ * Loads pre-0.3.0 tasks.json / completed_tasks.json files into the SQLite
+ * database, keeping the original request and task IDs.
+ */
+export class LegacyImporter {
+  private report!: LegacyImportReport;
+  private seenTaskIds = new Set<string>();
+
+  constructor(private taskRepository: TaskRepository) {}
+
+  public async run(options: LegacyImportOptions): Promise<LegacyImportReport> {
+    const tasksFilePath = options.tasksFilePath || DEFAULT_LEGACY_TASKS_FILE;
+    const completedTasksFilePath =
+      options.completedTasksFilePath || DEFAULT_LEGACY_COMPLETED_TASKS_FILE;
+
+    this.seenTaskIds = new Set();
+    this.report = {
+      dryRun: Boolean(options.dryRun),
+      tasksFile: null,
+      completedTasksFile: null,
+      importedRequestIds: [],
+      importedTaskCount: 0,
+      importedArchivedTaskCount: 0,
+      skippedRequestIds: [],
+      skippedArchiveBundles: 0,
+      conflicts: [],
+      warnings: [],
+      lastRequestId: 0,
+      lastTaskId: 0,
+    };
+
+    const tasksFile = await this._readJsonFile<TaskManagerFile>(
+      tasksFilePath,
+      Boolean(options.tasksFilePath),
+    );
+    const completedTasksFile = await this._readJsonFile<CompletedTasksFile>(
+      completedTasksFilePath,
+      Boolean(options.completedTasksFilePath),
+    );
+
+    if (!tasksFile && !completedTasksFile) {
+      throw new NotFoundError(
+        `No legacy files found (looked for '${tasksFilePath}' and '${completedTasksFilePath}').`,
+      );
+    }
+    if (tasksFile) this.report.tasksFile = tasksFilePath;
+    if (completedTasksFile)
+      this.report.completedTasksFile = completedTasksFilePath;
+
+    const plannedRequests = tasksFile ? this._planRequests(tasksFile) : [];
+    const plannedBundles = completedTasksFile
+      ? this._planBundles(completedTasksFile)
+      : [];
+
+    this.report.importedRequestIds = plannedRequests.map(
+      (p) => p.request.requestId,
+    );
+    this.report.importedTaskCount = plannedRequests.reduce(
+      (sum, p) => sum + p.tasks.length,
+      0,
+    );
+    this.report.importedArchivedTaskCount = plannedBundles.reduce(
+      (sum, p) => sum + p.tasks.length,
+      0,
+    );
+    this._computeCounters(tasksFile, plannedRequests, plannedBundles);
+
+    if (!this.report.dryRun) {
+      this.taskRepository.transaction(() => {
+        for (const { request, tasks } of plannedRequests) {
+          this.taskRepository.insertRequest({
+            requestId: request.requestId,
+            originalRequest: request.originalRequest,
+            splitDetails: request.splitDetails || null,
+            completed: Boolean(request.completed),
+            createdAt: request.createdAt,
+            updatedAt: request.updatedAt,
+          });
+          for (const task of tasks) {
+            this.taskRepository.createTask(task, request.requestId);
+          }
+        }
+
+        for (const { bundle, tasks } of plannedBundles) {
+          for (const task of tasks) {
+            this.taskRepository.insertArchivedTask(
+              task,
+              bundle.originalRequestId,
+              bundle.originalRequestText,
+              bundle.archivedAt,
+            );
+          }
+        }
+
+        this.taskRepository.raiseCounter(
+          "lastRequestId",
+          this.report.lastRequestId,
+        );
+        this.taskRepository.raiseCounter("lastTaskId", this.report.lastTaskId);
+      });
+    }
+
+    return this.report;
+  }
+
+  private async _readJsonFile<T>(
+    filePath: string,
+    required: boolean,
+  ): Promise<T | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        if (required) {
+          throw new NotFoundError(`Legacy file '${filePath}' not found.`);
+        }
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content) as T;
+    } catch (error) {
+      throw new InvalidOperationError(
+        `Legacy file '${filePath}' is not valid JSON: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private _planRequests(file: TaskManagerFile): PlannedRequest[] {
+    const planned: PlannedRequest[] = [];
+    const seenRequestIds = new Set<string>();
+
+    for (const request of file.requests || []) {
+      const source = `tasks.json request '${request.requestId}'`;
+      const conflicts: LegacyImportConflict[] = [];
+
+      if (
+        seenRequestIds.has(request.requestId) ||
+        this.taskRepository.requestExists(request.requestId)
+      ) {
+        conflicts.push({
+          kind: "request",
+          id: request.requestId,
+          source,
+          reason: seenRequestIds.has(request.requestId)
+            ? "Request ID appears more than once in the legacy file."
+            : "Request ID already exists in the database.",
+        });
+      }
+      seenRequestIds.add(request.requestId);
+
+      conflicts.push(...this._findTaskConflicts(request.tasks || [], source));
+
+      if (conflicts.length > 0) {
+        this.report.conflicts.push(...conflicts);
+        this.report.skippedRequestIds.push(request.requestId);
+        continue;
+      }
+
+      const tasks = this._orderParentsFirst(
+        (request.tasks || []).map((t) => this._normalizeTask(t, source)),
+        source,
+      );
+      tasks.forEach((t) => this.seenTaskIds.add(t.id));
+      planned.push({ request, tasks });
+    }
+
+    return planned;
+  }
+
+  private _planBundles(file: CompletedTasksFile): PlannedBundle[] {
+    const planned: PlannedBundle[] = [];
+
+    for (const bundle of file.archivedTaskBundles || []) {
+      const source = `completed_tasks.json bundle '${bundle.archivedRootTask?.id}'`;
+      const bundleTasks = [
+        bundle.archivedRootTask,
+        ...(bundle.archivedSubtasks || []),
+      ].filter(Boolean);
+
+      const conflicts = this._findTaskConflicts(bundleTasks, source);
+      if (conflicts.length > 0) {
+        this.report.conflicts.push(...conflicts);
+        this.report.skippedArchiveBundles++;
+        continue;
+      }
+
+      const tasks = bundleTasks.map((t) => this._normalizeTask(t, source));
+      tasks.forEach((t) => this.seenTaskIds.add(t.id));
+      planned.push({
+        bundle: {
+          ...bundle,
+          archivedAt: bundle.archivedAt || new Date().toISOString(),
+        },
+        tasks,
+      });
+    }
+
+    return planned;
+  }
+
+  private _findTaskConflicts(
+    tasks: Task[],
+    source: string,
+  ): LegacyImportConflict[] {
+    const conflicts: LegacyImportConflict[] = [];
+    const idsInEntry = new Set<string>();
+
+    for (const task of tasks) {
+      let reason: string | null = null;
+      if (idsInEntry.has(task.id) || this.seenTaskIds.has(task.id)) {
+        reason = "Task ID appears more than once in the legacy files.";
+      } else if (this.taskRepository.taskIdExists(task.id)) {
+        reason = "Task ID already exists in the database.";
+      }
+      idsInEntry.add(task.id);
+
+      if (reason) {
+        conflicts.push({ kind: "task", id: task.id, source, reason });
+      }
+    }
+    return conflicts;
+  }
+
+  private _normalizeTask(task: Task, source: string): Task {
+    const now = new Date().toISOString();
+    let status = task.status;
+    if (!TASK_STATUSES.has(status)) {
+      this.report.warnings.push(
+        `${source}: task '${task.id}' has unknown status '${status}', imported as 'pending'.`,
+      );
+      status = TaskStatus.Pending;
+    }
+
+    const { costData, ...rest } = task as Task & { costData?: unknown };
+    return {
+      ...rest,
+      costEntries: this._readCostEntries(task, costData, source),
+      retryCount: this._readRetryCount(task, source),
+      description: task.description || "",
+      status,
+      priority: TASK_PRIORITIES.has(task.priority)
+        ? task.priority
+        : TaskPriority.Medium,
+      createdAt: task.createdAt || now,
+      updatedAt: task.updatedAt || task.createdAt || now,
+    };
+  }
+
+  /**
+   * Carries cost entries across from either the task's costEntries or the
+   * raw costData column format ({ entries: [...] }, possibly as a string)
+   */
+  private _readCostEntries(
+    task: Task,
+    costData: unknown,
+    source: string,
+  ): CostEntry[] {
+    if (Array.isArray(task.costEntries)) return task.costEntries;
+    if (costData === undefined || costData === null) return [];
+    try {
+      const parsed =
+        typeof costData === "string" ? JSON.parse(costData) : costData;
+      if (Array.isArray(parsed?.entries)) return parsed.entries;
+      if (Object.keys(parsed || {}).length === 0) return [];
+    } catch {
+      // reported below
+    }
+    this.report.warnings.push(
+      `${source}: task '${task.id}' has unreadable costData, dropped.`,
+    );
+    return [];
+  }
+
+  private _readRetryCount(task: Task, source: string): number {
+    if (task.retryCount === undefined || task.retryCount === null) return 0;
+    if (Number.isInteger(task.retryCount) && task.retryCount >= 0) {
+      return task.retryCount;
+    }
+    this.report.warnings.push(
+      `${source}: task '${task.id}' has invalid retryCount '${task.retryCount}', imported as 0.`,
+    );
+    return 0;
+  }
+
+  /**
+   * Orders tasks so every parent is inserted before its subtasks, as required
+   * by the parentId foreign key. Parents missing from the file are dropped.
+   */
+  private _orderParentsFirst(tasks: Task[], source: string): Task[] {
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+    const ordered: Task[] = [];
+    const placed = new Set<string>();
+
+    const place = (task: Task, trail: Set<string>) => {
+      if (placed.has(task.id)) return;
+      if (task.parentId && !byId.has(task.parentId)) {
+        this.report.warnings.push(
+          `${source}: task '${task.id}' references missing parent '${task.parentId}', imported as a root task.`,
+        );
+        task.parentId = undefined;
+      }
+      if (task.parentId && trail.has(task.parentId)) {
+        this.report.warnings.push(
+          `${source}: task '${task.id}' is part of a parent cycle, imported as a root task.`,
+        );
+        task.parentId = undefined;
+      }
+      if (task.parentId) {
+        trail.add(task.id);
+        place(byId.get(task.parentId)!, trail);
+      }
+      placed.add(task.id);
+      ordered.push(task);
+    };
+
+    for (const task of tasks) {
+      place(task, new Set());
+    }
+    return ordered;
+  }
+
+  private _computeCounters(
+    tasksFile: TaskManagerFile | null,
+    plannedRequests: PlannedRequest[],
+    plannedBundles: PlannedBundle[],
+  ): void {
+    let lastRequestId = tasksFile?.metadata?.lastRequestId || 0;
+    let lastTaskId = tasksFile?.metadata?.lastTaskId || 0;
+
+    for (const { request, tasks } of plannedRequests) {
+      lastRequestId = Math.max(
+        lastRequestId,
+        parseNumericId(request.requestId, "req"),
+      );
+      for (const task of tasks) {
+        lastTaskId = Math.max(lastTaskId, parseNumericId(task.id, "task"));
+      }
+    }
+    for (const { bundle, tasks } of plannedBundles) {
+      lastRequestId = Math.max(
+        lastRequestId,
+        parseNumericId(bundle.originalRequestId, "req"),
+      );
+      for (const task of tasks) {
+        lastTaskId = Math.max(lastTaskId, parseNumericId(task.id, "task"));
+      }
+    }
+
+    this.report.lastRequestId = lastRequestId;
+    this.report.lastTaskId = lastTaskId;
+  }
+}
+
+/**
+ * Renders an import report as plain text for CLI output and tool messages
+ */
+export const formatImportReport = (report: LegacyImportReport): string => {
+  const lines = [
+    report.dryRun ? "Legacy import (dry run):" : "Legacy import:",
+    `tasks.json: ${report.tasksFile || "not found"}`,
+    `completed_tasks.json: ${report.completedTasksFile || "not found"}`,
+    `Requests ${report.dryRun ? "to import" : "imported"}: ${report.importedRequestIds.length} (${report.importedTaskCount} task(s))`,
+    `Archived tasks ${report.dryRun ? "to import" : "imported"}: ${report.importedArchivedTaskCount}`,
+    `Counters: lastRequestId >= ${report.lastRequestId}, lastTaskId >= ${report.lastTaskId}`,
+  ];
+
+  if (report.conflicts.length > 0) {
+    lines.push("");
+    lines.push(
+      `Conflicts (${report.conflicts.length}) - ${report.skippedRequestIds.length} request(s) and ${report.skippedArchiveBundles} archive bundle(s) skipped:`,
+    );
+    lines.push("Kind | ID | Source | Reason");
+    lines.push("-----|----|--------|-------");
+    for (const conflict of report.conflicts) {
+      lines.push(
+        `${conflict.kind} | ${conflict.id} | ${conflict.source} | ${conflict.reason}`,
+      );
+    }
+  } else {
+    lines.push("No conflicts found.");
+  }
+
+  if (report.warnings.length > 0) {
+    lines.push("");
+    lines.push("Warnings:");
+    report.warnings.forEach((w) => lines.push(`- ${w}`));
+  }
+
+  return lines.join("\n");
+};
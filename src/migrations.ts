@@ -0,0 +1,460 @@
+import type Database from "better-sqlite3";
+import * as path from "node:path";
+import * as fs from "node:fs";
+import { SchemaVersionError } from "./interfaces.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Task columns indexed for full-text search, in FTS column order
+const FTS_COLUMNS =
+  "title, description, completedDetails, failureReason, environmentContext";
+const ftsValues = (alias: string) =>
+  FTS_COLUMNS.split(", ")
+    .map((column) => `${alias}.${column}`)
+    .join(", ");
+const FTS_NEW_VALUES = ftsValues("new");
+
+/**
+ * Ordered list of schema migrations. Each migration runs once, inside its own
+ * transaction, and must never be edited after release - add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    // The 0.3.0 layout created by createSchema(). Stamping it gives existing
+    // databases a version to migrate from.
+    version: 1,
+    name: "baseline-0.3.0",
+    up: () => {},
+  },
+  {
+    // Full-text indexes over the descriptive task columns. The FTS tables keep
+    // their own copy of the text keyed by taskId and are synced by triggers.
+    version: 2,
+    name: "task-full-text-search",
+    up: (db) => {
+      for (const [table, ftsTable] of [
+        ["tasks", "tasks_fts"],
+        ["archived_tasks", "archived_tasks_fts"],
+      ]) {
+        db.exec(`
+          CREATE VIRTUAL TABLE ${ftsTable} USING fts5(
+            taskId UNINDEXED, ${FTS_COLUMNS},
+            tokenize = 'porter unicode61'
+          );
+
+          CREATE TRIGGER ${ftsTable}_ai AFTER INSERT ON ${table} BEGIN
+            INSERT INTO ${ftsTable} (taskId, ${FTS_COLUMNS})
+            VALUES (new.taskId, ${FTS_NEW_VALUES});
+          END;
+
+          CREATE TRIGGER ${ftsTable}_ad AFTER DELETE ON ${table} BEGIN
+            DELETE FROM ${ftsTable} WHERE taskId = old.taskId;
+          END;
+
+          CREATE TRIGGER ${ftsTable}_au
+          AFTER UPDATE OF taskId, ${FTS_COLUMNS} ON ${table} BEGIN
+            DELETE FROM ${ftsTable} WHERE taskId = old.taskId;
+            INSERT INTO ${ftsTable} (taskId, ${FTS_COLUMNS})
+            VALUES (new.taskId, ${FTS_NEW_VALUES});
+          END;
+
+          INSERT INTO ${ftsTable} (taskId, ${FTS_COLUMNS})
+          SELECT taskId, ${FTS_COLUMNS} FROM ${table};
+        `);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: "task-event-log",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE task_events (
+            eventId INTEGER PRIMARY KEY AUTOINCREMENT,
+            requestId TEXT,
+            taskId TEXT, -- NULL for request-level events
+            eventType TEXT NOT NULL,
+            toolName TEXT,
+            actor TEXT,
+            note TEXT,
+            changes TEXT, -- JSON object of field -> { before, after }
+            beforeState TEXT, -- JSON row snapshot
+            afterState TEXT, -- JSON row snapshot
+            createdAt TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_task_events_taskId ON task_events(taskId);
+        CREATE INDEX idx_task_events_requestId ON task_events(requestId);
+      `);
+    },
+  },
+  {
+    // Groups events by the tool call that produced them so calls can be undone
+    version: 4,
+    name: "task-event-operations",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE task_events ADD COLUMN operationId TEXT;
+        ALTER TABLE task_events ADD COLUMN undoneBy TEXT; -- operationId of the undo
+        CREATE INDEX idx_task_events_operationId ON task_events(operationId);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "task-failure-history",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN failureHistory TEXT; -- JSON array
+        ALTER TABLE archived_tasks ADD COLUMN failureHistory TEXT; -- JSON array
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "clarification-questions",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE clarification_questions (
+            questionId TEXT PRIMARY KEY,
+            requestId TEXT NOT NULL,
+            taskId TEXT NOT NULL,
+            question TEXT NOT NULL,
+            context TEXT,
+            askedBy TEXT,
+            answer TEXT, -- NULL while open
+            answeredBy TEXT,
+            createdAt TEXT NOT NULL,
+            answeredAt TEXT,
+            FOREIGN KEY (taskId) REFERENCES tasks(taskId) ON DELETE CASCADE
+        );
+
+        CREATE INDEX idx_clarification_questions_taskId ON clarification_questions(taskId);
+        CREATE INDEX idx_clarification_questions_requestId ON clarification_questions(requestId);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "request-scheduling-strategy",
+    up: (db) => {
+      db.exec(`ALTER TABLE requests ADD COLUMN schedulingStrategy TEXT;`);
+    },
+  },
+  {
+    // Leases let several agents claim work without handing out the same task.
+    // A lease only means something while the task is active, so any status
+    // change away from active drops it.
+    version: 8,
+    name: "task-leases",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN leaseOwner TEXT;
+        ALTER TABLE tasks ADD COLUMN leaseExpiresAt TEXT;
+        CREATE INDEX idx_tasks_leaseExpiresAt ON tasks(leaseExpiresAt);
+
+        CREATE TRIGGER tasks_clear_lease
+        AFTER UPDATE OF status ON tasks
+        WHEN new.status != 'active' AND new.leaseOwner IS NOT NULL BEGIN
+          UPDATE tasks SET leaseOwner = NULL, leaseExpiresAt = NULL
+          WHERE taskId = new.taskId;
+        END;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "agent-registry",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE agents (
+            agentId TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            taskTypes TEXT, -- JSON array, NULL = any type
+            maxConcurrency INTEGER NOT NULL DEFAULT 1,
+            status TEXT NOT NULL DEFAULT 'available',
+            createdAt TEXT NOT NULL,
+            updatedAt TEXT NOT NULL
+        );
+
+        ALTER TABLE tasks ADD COLUMN assignee TEXT;
+        ALTER TABLE archived_tasks ADD COLUMN assignee TEXT;
+        CREATE INDEX idx_tasks_assignee ON tasks(assignee);
+      `);
+    },
+  },
+  {
+    // blockedBy points at the failed or deleted task that keeps a dependent
+    // from running. Like a lease it only means something in its own status.
+    version: 10,
+    name: "task-blocking",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN blockedBy TEXT;
+
+        CREATE TRIGGER tasks_clear_blocked_by
+        AFTER UPDATE OF status ON tasks
+        WHEN new.status != 'blocked' AND new.blockedBy IS NOT NULL BEGIN
+          UPDATE tasks SET blockedBy = NULL WHERE taskId = new.taskId;
+        END;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "task-rollup-policy",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN rollupPolicy TEXT; -- NULL = all-must-succeed
+        ALTER TABLE tasks ADD COLUMN rollupReason TEXT;
+        ALTER TABLE archived_tasks ADD COLUMN rollupPolicy TEXT;
+        ALTER TABLE archived_tasks ADD COLUMN rollupReason TEXT;
+      `);
+    },
+  },
+  {
+    // Templates are copies, not references: they outlive the request they
+    // were saved from
+    version: 12,
+    name: "plan-templates",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE plan_templates (
+            name TEXT PRIMARY KEY,
+            description TEXT,
+            originalRequest TEXT NOT NULL,
+            splitDetails TEXT NOT NULL DEFAULT '',
+            tasks TEXT NOT NULL, -- JSON PlanTemplateTask[]
+            variables TEXT NOT NULL, -- JSON
+            createdAt TEXT NOT NULL,
+            updatedAt TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    // The v2 triggers found FTS rows by the UNINDEXED taskId column, a full
+    // scan on every task write. FTS rows now share the task row's rowid.
+    version: 13,
+    name: "task-fts-rowid",
+    up: (db) => {
+      for (const [table, ftsTable] of [
+        ["tasks", "tasks_fts"],
+        ["archived_tasks", "archived_tasks_fts"],
+      ]) {
+        db.exec(`
+          DROP TRIGGER ${ftsTable}_ai;
+          DROP TRIGGER ${ftsTable}_ad;
+          DROP TRIGGER ${ftsTable}_au;
+          DROP TABLE ${ftsTable};
+
+          CREATE VIRTUAL TABLE ${ftsTable} USING fts5(
+            ${FTS_COLUMNS},
+            tokenize = 'porter unicode61'
+          );
+
+          CREATE TRIGGER ${ftsTable}_ai AFTER INSERT ON ${table} BEGIN
+            INSERT INTO ${ftsTable} (rowid, ${FTS_COLUMNS})
+            VALUES (new.rowid, ${FTS_NEW_VALUES});
+          END;
+
+          CREATE TRIGGER ${ftsTable}_ad AFTER DELETE ON ${table} BEGIN
+            DELETE FROM ${ftsTable} WHERE rowid = old.rowid;
+          END;
+
+          CREATE TRIGGER ${ftsTable}_au
+          AFTER UPDATE OF ${FTS_COLUMNS} ON ${table} BEGIN
+            DELETE FROM ${ftsTable} WHERE rowid = old.rowid;
+            INSERT INTO ${ftsTable} (rowid, ${FTS_COLUMNS})
+            VALUES (new.rowid, ${FTS_NEW_VALUES});
+          END;
+
+          INSERT INTO ${ftsTable} (rowid, ${FTS_COLUMNS})
+          SELECT rowid, ${FTS_COLUMNS} FROM ${table};
+        `);
+      }
+    },
+  },
+  {
+    // The v13 rowids are the implicit rowids of tasks and archived_tasks,
+    // which VACUUM may renumber because taskId is a TEXT primary key. FTS rows
+    // now use the INTEGER PRIMARY KEY of task_search_keys, which VACUUM keeps.
+    // A key lives as long as its task is active or archived.
+    version: 14,
+    name: "task-search-keys",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE task_search_keys (
+            searchId INTEGER PRIMARY KEY,
+            taskId TEXT NOT NULL UNIQUE
+        );
+
+        INSERT INTO task_search_keys (taskId)
+        SELECT taskId FROM tasks UNION SELECT taskId FROM archived_tasks;
+      `);
+
+      const searchId = (taskId: string) =>
+        `(SELECT searchId FROM task_search_keys WHERE taskId = ${taskId})`;
+      const dropUnusedKey = `
+        DELETE FROM task_search_keys WHERE taskId = old.taskId
+          AND NOT EXISTS (SELECT 1 FROM tasks WHERE taskId = old.taskId)
+          AND NOT EXISTS (SELECT 1 FROM archived_tasks WHERE taskId = old.taskId);
+      `;
+
+      for (const [table, ftsTable] of [
+        ["tasks", "tasks_fts"],
+        ["archived_tasks", "archived_tasks_fts"],
+      ]) {
+        db.exec(`
+          DROP TRIGGER ${ftsTable}_ai;
+          DROP TRIGGER ${ftsTable}_ad;
+          DROP TRIGGER ${ftsTable}_au;
+          DELETE FROM ${ftsTable};
+
+          CREATE TRIGGER ${ftsTable}_ai AFTER INSERT ON ${table} BEGIN
+            INSERT OR IGNORE INTO task_search_keys (taskId) VALUES (new.taskId);
+            INSERT INTO ${ftsTable} (rowid, ${FTS_COLUMNS})
+            VALUES (${searchId("new.taskId")}, ${FTS_NEW_VALUES});
+          END;
+
+          CREATE TRIGGER ${ftsTable}_ad AFTER DELETE ON ${table} BEGIN
+            DELETE FROM ${ftsTable} WHERE rowid = ${searchId("old.taskId")};
+            ${dropUnusedKey}
+          END;
+
+          CREATE TRIGGER ${ftsTable}_au
+          AFTER UPDATE OF taskId, ${FTS_COLUMNS} ON ${table} BEGIN
+            DELETE FROM ${ftsTable} WHERE rowid = ${searchId("old.taskId")};
+            ${dropUnusedKey}
+            INSERT OR IGNORE INTO task_search_keys (taskId) VALUES (new.taskId);
+            INSERT INTO ${ftsTable} (rowid, ${FTS_COLUMNS})
+            VALUES (${searchId("new.taskId")}, ${FTS_NEW_VALUES});
+          END;
+
+          INSERT INTO ${ftsTable} (rowid, ${FTS_COLUMNS})
+          SELECT k.searchId, ${ftsValues("t")}
+          FROM ${table} t JOIN task_search_keys k ON k.taskId = t.taskId;
+        `);
+      }
+    },
+  },
+  {
+    // Version 6 cascaded task deletes to clarification_questions, which also
+    // fired when a task moved to archived_tasks and could not be undone.
+    // Questions now stay keyed by taskId without a foreign key, so they follow
+    // their task through archive, restore and an undone delete.
+    version: 15,
+    name: "clarification-questions-without-cascade",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE clarification_questions_v15 (
+            questionId TEXT PRIMARY KEY,
+            requestId TEXT NOT NULL,
+            taskId TEXT NOT NULL,
+            question TEXT NOT NULL,
+            context TEXT,
+            askedBy TEXT,
+            answer TEXT, -- NULL while open
+            answeredBy TEXT,
+            createdAt TEXT NOT NULL,
+            answeredAt TEXT
+        );
+
+        INSERT INTO clarification_questions_v15
+        SELECT questionId, requestId, taskId, question, context, askedBy,
+               answer, answeredBy, createdAt, answeredAt
+        FROM clarification_questions ORDER BY rowid;
+
+        DROP TABLE clarification_questions;
+        ALTER TABLE clarification_questions_v15 RENAME TO clarification_questions;
+
+        CREATE INDEX idx_clarification_questions_taskId ON clarification_questions(taskId);
+        CREATE INDEX idx_clarification_questions_requestId ON clarification_questions(requestId);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const SCHEMA_VERSION_KEY = "schemaVersion";
+
+/**
+ * Reads the schema version stored in the metadata table (0 if never stamped)
+ */
+export const getSchemaVersion = (db: Database.Database): number => {
+  const row = db
+    .prepare("SELECT value FROM metadata WHERE key = ?")
+    .get(SCHEMA_VERSION_KEY) as { value: string } | undefined;
+  return row ? parseInt(row.value, 10) : 0;
+};
+
+const setSchemaVersion = (db: Database.Database, version: number): void => {
+  db.prepare(
+    `INSERT OR REPLACE INTO metadata (key, value, updatedAt)
+     VALUES (?, ?, datetime('now'))`,
+  ).run(SCHEMA_VERSION_KEY, version.toString());
+};
+
+/**
+ * Copies the database to the backups directory next to it using VACUUM INTO
+ * @returns Path of the backup file
+ */
+const backupDatabase = (
+  db: Database.Database,
+  dbPath: string,
+  fromVersion: number,
+): string => {
+  const backupDir = path.join(path.dirname(dbPath), "backups");
+  fs.mkdirSync(backupDir, { recursive: true });
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = path.join(
+    backupDir,
+    `${path.basename(dbPath)}.v${fromVersion}-${timestamp}.bak`,
+  );
+  db.prepare("VACUUM INTO ?").run(backupPath);
+  return backupPath;
+};
+
+/**
+ * Brings the database up to LATEST_SCHEMA_VERSION.
+ * Refuses to touch a database written by a newer binary, and backs up an
+ * existing database before applying any pending migration.
+ */
+export const runMigrations = (
+  db: Database.Database,
+  dbPath: string,
+  isNewDatabase: boolean,
+): void => {
+  const currentVersion = getSchemaVersion(db);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new SchemaVersionError(
+      `Database schema version ${currentVersion} is newer than the latest version supported by this build (${LATEST_SCHEMA_VERSION}). Upgrade mcp-meta-mind to open ${dbPath}.`,
+    );
+  }
+
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion);
+  if (pending.length === 0) return;
+
+  if (!isNewDatabase) {
+    const backupPath = backupDatabase(db, dbPath, currentVersion);
+    console.error(`Database backed up to: ${backupPath}`);
+  }
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      setSchemaVersion(db, migration.version);
+    });
+    apply();
+    console.error(
+      `Applied database migration ${migration.version} (${migration.name}).`,
+    );
+  }
+};
@@ -0,0 +1,395 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import * as fs from "node:fs/promises";
+import { TaskRepository } from "./taskRepository.js";
+import {
+  AgentStatus,
+  InvalidOperationError,
+  NotFoundError,
+  RequestEntry,
+  Task,
+  TaskStatus,
+} from "./interfaces.js";
+import {
+  LogTaskCompletionSummarySchema,
+  RequestPlanningSchema,
+  RollupPolicyEnum,
+  SplitTaskSchema,
+  TaskPriorityEnum,
+  TaskTypeEnum,
+} from "./schemas.js";
+import { formatCostTotals, rollupTaskCosts } from "./costs.js";
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "plan-request",
+    description:
+      "Turn a raw user request into a request_planning call, with the registered agents and open requests filled in.",
+    arguments: [
+      {
+        name: "request",
+        description: "The user's request, verbatim.",
+        required: true,
+      },
+      {
+        name: "context",
+        description:
+          "Optional project context: repository, stack, constraints.",
+      },
+    ],
+  },
+  {
+    name: "decompose-task",
+    description:
+      "Prepare a split_task call for a task, given its request, dependencies, subtasks and failure history.",
+    arguments: [
+      {
+        name: "taskId",
+        description: "The active task to split into subtasks.",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "write-completion-summary",
+    description:
+      "Draft a log_task_completion_summary call from everything recorded about a task.",
+    arguments: [
+      {
+        name: "taskId",
+        description: "The active task to summarise.",
+        required: true,
+      },
+    ],
+  },
+];
+
+type PromptArguments = Record<string, string> | undefined;
+
+const requireArgument = (
+  args: PromptArguments,
+  name: string,
+  promptName: string,
+): string => {
+  const value = args?.[name]?.trim();
+  if (!value) {
+    throw new InvalidOperationError(
+      `Prompt '${promptName}' requires the '${name}' argument.`,
+    );
+  }
+  return value;
+};
+
+const userPrompt = (description: string, text: string): GetPromptResult => ({
+  description,
+  messages: [{ role: "user", content: { type: "text", text } }],
+});
+
+const jsonBlock = (value: unknown): string =>
+  "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+const truncate = (text: string, max: number): string =>
+  text.length > max ? text.substring(0, max - 3) + "..." : text;
+
+const taskLine = (task: Task): string =>
+  `- ${task.id} [${task.status}, ${task.priority}${task.type ? `, ${task.type}` : ""}]: ${task.title}`;
+
+const formatAgents = (taskRepository: TaskRepository): string => {
+  const agents = taskRepository.findAllAgents(AgentStatus.Available);
+  if (agents.length === 0) {
+    return "No agents are registered; leave `assignee` unset.";
+  }
+  return agents
+    .map(
+      (agent) =>
+        `- ${agent.agentId} (${agent.name}): ${agent.taskTypes.length > 0 ? agent.taskTypes.join(", ") : "any type"}, up to ${agent.maxConcurrency} concurrent task(s)`,
+    )
+    .join("\n");
+};
+
+/**
+ * Locates the request that holds an active task
+ * @throws NotFoundError if the task is not active in any request
+ */
+const findActiveTask = (
+  taskRepository: TaskRepository,
+  taskId: string,
+): { task: Task; request: RequestEntry } => {
+  for (const request of taskRepository.findAllRequests()) {
+    const task = request.tasks.find((t) => t.id === taskId);
+    if (task) return { task, request };
+  }
+  throw new NotFoundError(
+    taskRepository.findArchivedTaskById(taskId)
+      ? `Task '${taskId}' is archived; restore it first.`
+      : `Task '${taskId}' not found.`,
+  );
+};
+
+/**
+ * @param archived Archived tasks of the request, so finished dependencies
+ *   and parents still resolve
+ */
+const describeTask = (
+  task: Task,
+  request: RequestEntry,
+  archived: Task[],
+): string => {
+  const byId = new Map([...archived, ...request.tasks].map((t) => [t.id, t]));
+  const lines = [
+    `Task ${task.id} of request ${request.requestId}: ${task.title}`,
+    `Status: ${task.status}, priority: ${task.priority}${task.type ? `, type: ${task.type}` : ""}${task.assignee ? `, assignee: ${task.assignee}` : ""}`,
+    "",
+    "Description:",
+    task.description || "(none)",
+  ];
+  if (task.environmentContext) {
+    lines.push("", "Environment context:", task.environmentContext);
+  }
+  if (task.dependsOn && task.dependsOn.length > 0) {
+    lines.push(
+      "",
+      "Depends on:",
+      ...task.dependsOn.map((id) => {
+        const dep = byId.get(id);
+        return dep ? taskLine(dep) : `- ${id} [deleted]`;
+      }),
+    );
+  }
+  if (task.parentId) {
+    const parent = byId.get(task.parentId);
+    lines.push("", `Parent: ${parent ? parent.title : task.parentId}`);
+  }
+  if (task.failureHistory && task.failureHistory.length > 0) {
+    lines.push(
+      "",
+      "Failure history:",
+      ...task.failureHistory.map(
+        (f) =>
+          `- Attempt ${f.attempt}: ${f.reason}${f.suggestedRetryStrategy ? ` (suggested: ${f.suggestedRetryStrategy})` : ""}`,
+      ),
+    );
+  }
+  return lines.join("\n");
+};
+
+const planRequestPrompt = (
+  taskRepository: TaskRepository,
+  args: PromptArguments,
+): GetPromptResult => {
+  const request = requireArgument(args, "request", "plan-request");
+  const openRequests = taskRepository
+    .findAllRequests()
+    .filter((r) => !r.completed);
+
+  const text = [
+    "Plan the following request by calling the `request_planning` tool.",
+    "",
+    "Request:",
+    request,
+    ...(args?.context ? ["", "Project context:", args.context] : []),
+    "",
+    "Guidelines:",
+    "- Pass the request verbatim as `originalRequest` and explain how you split it in `splitDetails`.",
+    "- Each task should be one focused unit of work with a clear, checkable outcome in its description.",
+    `- \`type\` is one of: ${TaskTypeEnum.options.join(", ")}.`,
+    `- \`priority\` is one of: ${TaskPriorityEnum.options.join(", ")} (default medium).`,
+    `- \`rollupPolicy\` (${RollupPolicyEnum.options.join(", ")}) only matters for tasks that will be split into subtasks later.`,
+    "- Task IDs are assigned when the request is created, so `dependsOn` can only name existing tasks. Add ordering between the new tasks afterwards with `add_dependency`.",
+    "- Put shared setup (repository, branch, commands) in `environmentContext` rather than repeating it in every description.",
+    "",
+    "Registered agents (use their agentId as `assignee` only when a task must go to that agent):",
+    formatAgents(taskRepository),
+    "",
+    openRequests.length > 0
+      ? "Open requests (if the request duplicates one of these, use `add_tasks_to_request` instead):"
+      : "There are no open requests.",
+    ...openRequests.map(
+      (r) => `- ${r.requestId}: ${truncate(r.originalRequest, 120)}`,
+    ),
+    "",
+    "The payload must match this JSON Schema:",
+    jsonBlock(zodToJsonSchema(RequestPlanningSchema)),
+  ].join("\n");
+
+  return userPrompt("Plan a request with request_planning", text);
+};
+
+const decomposeTaskPrompt = (
+  taskRepository: TaskRepository,
+  args: PromptArguments,
+): GetPromptResult => {
+  const taskId = requireArgument(args, "taskId", "decompose-task");
+  const { task, request } = findActiveTask(taskRepository, taskId);
+  if (task.status === TaskStatus.Done) {
+    throw new InvalidOperationError(
+      `Task '${taskId}' is done and cannot be split.`,
+    );
+  }
+
+  const subtasks = request.tasks.filter((t) => t.parentId === task.id);
+  const others = request.tasks.filter(
+    (t) => t.id !== task.id && t.parentId !== task.id,
+  );
+
+  const text = [
+    `Split task ${task.id} into subtasks by calling the \`split_task\` tool.`,
+    "",
+    `The task belongs to request ${request.requestId}: ${request.originalRequest}`,
+    "",
+    describeTask(
+      task,
+      request,
+      taskRepository.findArchivedTasksByRequestId(request.requestId),
+    ),
+    "",
+    subtasks.length > 0
+      ? "Existing subtasks (new ones are added next to them; do not duplicate their work):"
+      : "The task has no subtasks yet.",
+    ...subtasks.map(taskLine),
+    "",
+    "Other tasks in the request:",
+    ...(others.length > 0 ? others.map(taskLine) : ["(none)"]),
+    "",
+    "Guidelines:",
+    "- Each subtask should be completable on its own and together they should cover the whole task.",
+    "- Subtasks inherit the task's priority, type and environment context unless you set them.",
+    "- `dependsOn` may name any task listed above.",
+    `- The parent completes or fails from its subtasks under its ${task.rollupPolicy || "all-must-succeed"} rollup policy.`,
+    "- Subtask IDs are assigned on creation; order the new subtasks afterwards with `add_dependency`.",
+    "",
+    "Call `split_task` with:",
+    jsonBlock({
+      requestId: request.requestId,
+      taskIdToSplit: task.id,
+      newSubtaskDefinitions: [
+        { title: "...", description: "...", dependsOn: [] },
+      ],
+    }),
+    "",
+    "The payload must match this JSON Schema:",
+    jsonBlock(zodToJsonSchema(SplitTaskSchema)),
+  ].join("\n");
+
+  return userPrompt(`Decompose task ${task.id} with split_task`, text);
+};
+
+const writeCompletionSummaryPrompt = async (
+  taskRepository: TaskRepository,
+  args: PromptArguments,
+): Promise<GetPromptResult> => {
+  const taskId = requireArgument(args, "taskId", "write-completion-summary");
+  const { task, request } = findActiveTask(taskRepository, taskId);
+
+  const subtasks = request.tasks.filter((t) => t.parentId === task.id);
+  const rollup = rollupTaskCosts(request.tasks).get(task.id);
+  const cost = rollup ? formatCostTotals(rollup.total) : "-";
+  const answered = taskRepository
+    .findQuestionsByTaskId(task.id)
+    .filter((q) => q.answer);
+  const reviews = (task.feedbackHistory || []).filter(
+    (f) => f.kind !== "submission" && f.comment,
+  );
+
+  let existingSummary: string | null = null;
+  if (task.summaryFilePath) {
+    existingSummary = await fs
+      .readFile(task.summaryFilePath, "utf-8")
+      .catch(() => null);
+  }
+
+  const text = [
+    `Write the completion summary for task ${task.id} and save it with the \`log_task_completion_summary\` tool.`,
+    "",
+    `The task belongs to request ${request.requestId}: ${request.originalRequest}`,
+    "",
+    describeTask(
+      task,
+      request,
+      taskRepository.findArchivedTasksByRequestId(request.requestId),
+    ),
+    ...(task.completedDetails
+      ? ["", "Completion details:", task.completedDetails]
+      : []),
+    ...(task.artifactsGenerated && task.artifactsGenerated.length > 0
+      ? [
+          "",
+          "Artifacts so far:",
+          ...task.artifactsGenerated.map((a) => `- ${a}`),
+        ]
+      : []),
+    ...(subtasks.length > 0
+      ? [
+          "",
+          "Subtasks:",
+          ...subtasks.map(
+            (t) =>
+              `${taskLine(t)}${t.completedDetails ? ` - ${t.completedDetails}` : ""}`,
+          ),
+        ]
+      : []),
+    ...(task.rollupReason ? ["", `Rollup: ${task.rollupReason}`] : []),
+    ...(answered.length > 0
+      ? [
+          "",
+          "Answered clarification questions:",
+          ...answered.map((q) => `- ${q.question} -> ${q.answer}`),
+        ]
+      : []),
+    ...(reviews.length > 0
+      ? [
+          "",
+          "Review feedback:",
+          ...reviews.map((f) => `- Round ${f.round} ${f.kind}: ${f.comment}`),
+        ]
+      : []),
+    ...(cost !== "-" ? ["", `Recorded cost: ${cost}`] : []),
+    ...(existingSummary
+      ? [
+          "",
+          "A summary was already logged; revise it rather than starting over:",
+          existingSummary,
+        ]
+      : []),
+    "",
+    "The summary is Markdown and should cover:",
+    "- What was done and why, in a few sentences",
+    "- Files, commands and other artifacts produced",
+    "- Decisions, trade-offs and anything left open for follow-up tasks",
+    "",
+    "Call `log_task_completion_summary` with:",
+    jsonBlock({
+      requestId: request.requestId,
+      taskId: task.id,
+      summaryMarkdownContent: "# ...",
+      artifactsGenerated: task.artifactsGenerated || [],
+    }),
+    "",
+    "The payload must match this JSON Schema:",
+    jsonBlock(zodToJsonSchema(LogTaskCompletionSummarySchema)),
+  ].join("\n");
+
+  return userPrompt(`Write the completion summary of task ${task.id}`, text);
+};
+
+/**
+ * Fills in a prompt template with live data from the database
+ * @throws NotFoundError for unknown prompts and tasks
+ * @throws InvalidOperationError for missing arguments
+ */
+export const getPrompt = async (
+  taskRepository: TaskRepository,
+  name: string,
+  args: PromptArguments,
+): Promise<GetPromptResult> => {
+  switch (name) {
+    case "plan-request":
+      return planRequestPrompt(taskRepository, args);
+    case "decompose-task":
+      return decomposeTaskPrompt(taskRepository, args);
+    case "write-completion-summary":
+      return writeCompletionSummaryPrompt(taskRepository, args);
+    default:
+      throw new NotFoundError(`Unknown prompt '${name}'.`);
+  }
+};
@@ -0,0 +1,378 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { TaskRepository } from "./taskRepository.js";
+import {
+  ArchivedTask,
+  InvalidOperationError,
+  NotFoundError,
+  RepositoryChange,
+  RequestEntry,
+  Task,
+  TaskStatus,
+} from "./interfaces.js";
+
+const SCHEME = "meta-mind://";
+const JSON_MIME_TYPE = "application/json";
+const MARKDOWN_MIME_TYPE = "text/markdown";
+
+export const REQUESTS_RESOURCE_URI = `${SCHEME}requests`;
+
+export const requestResourceUri = (requestId: string): string =>
+  `${SCHEME}request/${encodeURIComponent(requestId)}`;
+export const taskResourceUri = (taskId: string): string =>
+  `${SCHEME}task/${encodeURIComponent(taskId)}`;
+export const summaryResourceUri = (taskId: string): string =>
+  `${SCHEME}summary/${encodeURIComponent(taskId)}`;
+export const archiveResourceUri = (requestId: string): string =>
+  `${SCHEME}archive/${encodeURIComponent(requestId)}`;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${SCHEME}request/{requestId}`,
+    name: "Request",
+    description:
+      "A request with its active tasks, scheduling strategy and completion state.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${SCHEME}task/{taskId}`,
+    name: "Task",
+    description: "An active or archived task with all of its fields.",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${SCHEME}summary/{taskId}`,
+    name: "Task completion summary",
+    description:
+      "The Markdown completion summary written by log_task_completion_summary.",
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${SCHEME}archive/{requestId}`,
+    name: "Archived task trees",
+    description:
+      "The archived task trees of a request, with subtasks nested under their parents.",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+type ResourceKind = "requests" | "request" | "task" | "summary" | "archive";
+
+/**
+ * Splits a meta-mind:// URI into its kind and decoded ID
+ * @returns null if the URI does not name a known resource
+ */
+export const parseResourceUri = (
+  uri: string,
+): { kind: ResourceKind; id?: string } | null => {
+  const match = uri.match(
+    /^meta-mind:\/\/(requests|request|task|summary|archive)(?:\/([^/]+))?$/,
+  );
+  if (!match) return null;
+
+  const kind = match[1] as ResourceKind;
+  const id = match[2] ? decodeURIComponent(match[2]) : undefined;
+  if ((kind === "requests") !== (id === undefined)) return null;
+  return { kind, id };
+};
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * An entry of the meta-mind://requests resource
+ */
+export interface RequestSummary {
+  requestId: string;
+  uri: string;
+  originalRequest: string;
+  completed: boolean;
+  taskCount: number;
+  doneCount: number;
+  archivedTaskCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * The meta-mind://request/{requestId} resource
+ */
+export type RequestResource = RequestEntry & { archivedTaskCount: number };
+
+/**
+ * A root of the meta-mind://archive/{requestId} resource
+ */
+export type ArchivedTreeNode = ArchivedTask & { subtasks: ArchivedTreeNode[] };
+
+/**
+ * Nests archived tasks under their parents. Tasks whose parent was not
+ * archived with them become roots.
+ */
+const buildArchivedTrees = (tasks: ArchivedTask[]): ArchivedTreeNode[] => {
+  const nodes = new Map<string, ArchivedTreeNode>(
+    tasks.map((task) => [task.id, { ...task, subtasks: [] }]),
+  );
+  const roots: ArchivedTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.subtasks.push(node);
+    else roots.push(node);
+  }
+  return roots;
+};
+
+/**
+ * Flattens archive resource trees back into a task list, parents first
+ */
+export const flattenArchivedTrees = (nodes: ArchivedTreeNode[]): Task[] =>
+  nodes.flatMap(({ subtasks, ...task }) => [
+    task,
+    ...flattenArchivedTrees(subtasks),
+  ]);
+
+const jsonContents = (uri: string, value: unknown): ResourceContents => ({
+  uri,
+  mimeType: JSON_MIME_TYPE,
+  text: JSON.stringify(value, null, 2),
+});
+
+/**
+ * Lists the concrete resources: the request index, every request, every
+ * request archive that has tasks, and every written completion summary.
+ * Individual tasks are reachable through the task template.
+ */
+export const listResources = (taskRepository: TaskRepository): Resource[] => {
+  const resources: Resource[] = [
+    {
+      uri: REQUESTS_RESOURCE_URI,
+      name: "All requests",
+      description: "Every request with its task counts and completion state.",
+      mimeType: JSON_MIME_TYPE,
+    },
+  ];
+
+  for (const request of taskRepository.findAllRequests()) {
+    const archived = taskRepository.findArchivedTasksByRequestId(
+      request.requestId,
+    );
+    resources.push({
+      uri: requestResourceUri(request.requestId),
+      name: `Request ${request.requestId}`,
+      description: request.originalRequest,
+      mimeType: JSON_MIME_TYPE,
+    });
+    if (archived.length > 0) {
+      resources.push({
+        uri: archiveResourceUri(request.requestId),
+        name: `Archived tasks of ${request.requestId}`,
+        description: `${archived.length} archived task(s).`,
+        mimeType: JSON_MIME_TYPE,
+      });
+    }
+
+    for (const task of [...request.tasks, ...archived]) {
+      if (!task.summaryFilePath) continue;
+      resources.push({
+        uri: summaryResourceUri(task.id),
+        name: `Summary of ${task.id}`,
+        description: task.title,
+        mimeType: MARKDOWN_MIME_TYPE,
+      });
+    }
+  }
+  return resources;
+};
+
+const findTaskOrThrow = (
+  taskRepository: TaskRepository,
+  taskId: string,
+): Task => {
+  const task =
+    taskRepository.findTaskById(taskId) ||
+    taskRepository.findArchivedTaskById(taskId);
+  if (!task) {
+    throw new NotFoundError(`Task '${taskId}' not found.`);
+  }
+  return task;
+};
+
+/**
+ * Reads a completion summary. summaryFilePath can be set by any client
+ * through update_task or a legacy import, so only files inside the summaries
+ * directory are served, after resolving symlinks.
+ */
+const readSummaryFile = async (
+  task: Task,
+  summariesDir: string,
+): Promise<string> => {
+  const missing = () =>
+    new NotFoundError(
+      `Completion summary for task '${task.id}' is missing at ${task.summaryFilePath}.`,
+    );
+
+  const realPath = await fs.realpath(task.summaryFilePath!).catch(() => null);
+  if (!realPath) throw missing();
+
+  const relative = path.relative(await fs.realpath(summariesDir), realPath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new InvalidOperationError(
+      `Completion summary for task '${task.id}' is outside the summaries directory ${summariesDir}.`,
+    );
+  }
+
+  return fs.readFile(realPath, "utf-8").catch(() => {
+    throw missing();
+  });
+};
+
+/**
+ * Reads a meta-mind:// resource
+ * @param summariesDir The only directory completion summaries are read from
+ * @throws NotFoundError for unknown URIs and missing requests, tasks or summaries
+ * @throws InvalidOperationError for a summary outside summariesDir
+ */
+export const readResource = async (
+  taskRepository: TaskRepository,
+  uri: string,
+  summariesDir: string,
+): Promise<ResourceContents> => {
+  const { kind, id } = parseResourceUri(uri) || {};
+
+  if (kind === "requests") {
+    return jsonContents(
+      uri,
+      taskRepository.findAllRequests().map((request): RequestSummary => ({
+        requestId: request.requestId,
+        uri: requestResourceUri(request.requestId),
+        originalRequest: request.originalRequest,
+        completed: request.completed,
+        taskCount: request.tasks.length,
+        doneCount: request.tasks.filter((t) => t.status === TaskStatus.Done)
+          .length,
+        archivedTaskCount: taskRepository.findArchivedTasksByRequestId(
+          request.requestId,
+        ).length,
+        createdAt: request.createdAt,
+        updatedAt: request.updatedAt,
+      })),
+    );
+  }
+
+  if (kind === "request" && id) {
+    const request = taskRepository.findRequestById(id);
+    if (!request) {
+      throw new NotFoundError(`Request '${id}' not found.`);
+    }
+    const resource: RequestResource = {
+      ...request,
+      archivedTaskCount: taskRepository.findArchivedTasksByRequestId(id).length,
+    };
+    return jsonContents(uri, resource);
+  }
+
+  if (kind === "task" && id) {
+    return jsonContents(uri, findTaskOrThrow(taskRepository, id));
+  }
+
+  if (kind === "summary" && id) {
+    const task = findTaskOrThrow(taskRepository, id);
+    if (!task.summaryFilePath) {
+      throw new NotFoundError(`Task '${id}' has no completion summary.`);
+    }
+    return {
+      uri,
+      mimeType: MARKDOWN_MIME_TYPE,
+      text: await readSummaryFile(task, summariesDir),
+    };
+  }
+
+  if (kind === "archive" && id) {
+    // Archives outlive their request, so only fail when neither exists
+    const archived = taskRepository.findArchivedTasksByRequestId(id);
+    if (archived.length === 0 && !taskRepository.requestExists(id)) {
+      throw new NotFoundError(`Request '${id}' not found.`);
+    }
+    return jsonContents(uri, buildArchivedTrees(archived));
+  }
+
+  throw new NotFoundError(`Unknown resource URI '${uri}'.`);
+};
+
+/**
+ * URIs whose contents may differ after a repository change
+ */
+const urisAffectedByChange = (change: RepositoryChange): string[] => {
+  // Agents and templates belong to no request or task and show in no resource
+  if (!change.requestId && !change.taskId) return [];
+
+  const uris = [REQUESTS_RESOURCE_URI];
+  if (change.requestId) {
+    uris.push(requestResourceUri(change.requestId));
+    if (
+      change.eventType === "task_archived" ||
+      change.eventType === "task_restored"
+    ) {
+      uris.push(archiveResourceUri(change.requestId));
+    }
+  }
+  if (change.taskId) {
+    uris.push(
+      taskResourceUri(change.taskId),
+      summaryResourceUri(change.taskId),
+    );
+  }
+  return uris;
+};
+
+/**
+ * Tracks the resources one client subscribed to and sends it an update
+ * notification when they change. Changes are coalesced per event-loop turn,
+ * so a tool call with many side effects notifies each URI once.
+ */
+export class ResourceSubscriptions {
+  private subscribed = new Set<string>();
+  private pending = new Set<string>();
+  private flushScheduled = false;
+
+  constructor(private sendUpdated: (uri: string) => Promise<void>) {}
+
+  /**
+   * @throws NotFoundError if the URI does not name a known resource
+   */
+  public subscribe(uri: string): void {
+    if (!parseResourceUri(uri)) {
+      throw new NotFoundError(`Unknown resource URI '${uri}'.`);
+    }
+    this.subscribed.add(uri);
+  }
+
+  public unsubscribe(uri: string): void {
+    this.subscribed.delete(uri);
+    this.pending.delete(uri);
+  }
+
+  public handleChange(change: RepositoryChange): void {
+    for (const uri of urisAffectedByChange(change)) {
+      if (this.subscribed.has(uri)) this.pending.add(uri);
+    }
+    if (this.pending.size > 0 && !this.flushScheduled) {
+      this.flushScheduled = true;
+      setImmediate(() => this.flush());
+    }
+  }
+
+  private flush(): void {
+    this.flushScheduled = false;
+    const uris = [...this.pending];
+    this.pending.clear();
+    for (const uri of uris) {
+      this.sendUpdated(uri).catch((error) =>
+        console.error(`Failed to notify subscribers of ${uri}:`, error),
+      );
+    }
+  }
+}
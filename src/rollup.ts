@@ -0,0 +1,87 @@
+import { Task, TaskStatus, RollupPolicy } from "./interfaces.js";
+
+export const DEFAULT_ROLLUP_POLICY: RollupPolicy = "all-must-succeed";
+
+export interface RollupDecision {
+  status: TaskStatus.Done | TaskStatus.Failed;
+  reason: string;
+}
+
+/**
+ * Decides what a parent becomes given its subtasks and rollup policy:
+ * - all-must-succeed: done once every subtask is done, failed once every
+ *   subtask is settled and any failed
+ * - best-effort: once every subtask is settled, done if any succeeded
+ * - fail-fast: failed as soon as any subtask fails, done once all are done
+ * @returns null while the outcome is still open
+ */
+export const evaluateRollup = (
+  policy: RollupPolicy | undefined,
+  subtasks: Task[],
+): RollupDecision | null => {
+  const effective = policy || DEFAULT_ROLLUP_POLICY;
+  const done = subtasks.filter((t) => t.status === TaskStatus.Done);
+  const failed = subtasks.filter((t) => t.status === TaskStatus.Failed);
+  const settled = done.length + failed.length === subtasks.length;
+  const total = subtasks.length;
+
+  if (effective === "fail-fast" && failed.length > 0) {
+    return {
+      status: TaskStatus.Failed,
+      reason: `Subtask '${failed[0].id}' failed (fail-fast).`,
+    };
+  }
+  if (!settled) return null;
+
+  if (failed.length === 0) {
+    return {
+      status: TaskStatus.Done,
+      reason: `All ${total} subtask(s) done (${effective}).`,
+    };
+  }
+  if (effective === "best-effort" && done.length > 0) {
+    return {
+      status: TaskStatus.Done,
+      reason: `${done.length} of ${total} subtask(s) done, ${failed.length} failed (best-effort).`,
+    };
+  }
+  return {
+    status: TaskStatus.Failed,
+    reason: `${failed.length} of ${total} subtask(s) failed (${effective}).`,
+  };
+};
+
+/**
+ * Checks whether a task tree is settled under its rollup policies: every task
+ * is done or failed, the root is done, and each parent's policy accepts its
+ * subtasks' outcome.
+ * @param getSubtasks Resolves a parent's subtasks (active or archived)
+ * @returns Why the tree is not settled, or null if it is
+ */
+export const findUnsettledReason = (
+  root: Task,
+  getSubtasks: (task: Task) => Task[],
+): string | null => {
+  if (root.status !== TaskStatus.Done) {
+    return `task '${root.id}' is ${root.status}`;
+  }
+
+  const check = (task: Task): string | null => {
+    if (task.status !== TaskStatus.Done && task.status !== TaskStatus.Failed) {
+      return `task '${task.id}' is ${task.status}`;
+    }
+    const subtasks = getSubtasks(task);
+    for (const subtask of subtasks) {
+      const reason = check(subtask);
+      if (reason) return reason;
+    }
+    if (subtasks.length > 0 && task.status === TaskStatus.Done) {
+      const decision = evaluateRollup(task.rollupPolicy, subtasks);
+      if (decision?.status !== TaskStatus.Done) {
+        return `task '${task.id}' is done but its ${task.rollupPolicy || DEFAULT_ROLLUP_POLICY} policy does not accept its subtasks (${decision?.reason || "still open"})`;
+      }
+    }
+    return null;
+  };
+  return check(root);
+};
@@ -0,0 +1,205 @@
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  SchedulingStrategy,
+} from "./interfaces.js";
+
+export const DEFAULT_SCHEDULING_STRATEGY: SchedulingStrategy = "priority";
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.Critical]: 3,
+  [TaskPriority.High]: 2,
+  [TaskPriority.Medium]: 1,
+  [TaskPriority.Low]: 0,
+};
+
+export interface ScheduledCandidate {
+  task: Task;
+  reason: string;
+}
+
+export interface ScheduleDecision {
+  strategy: SchedulingStrategy;
+  chosen: ScheduledCandidate;
+  runnersUp: ScheduledCandidate[];
+}
+
+interface RankedCandidate extends ScheduledCandidate {
+  // Compared in order; lower sorts first
+  sortKey: number[];
+}
+
+/**
+ * Whether every dependency of the task is done
+ */
+export const areDependenciesMet = (
+  task: Task,
+  tasksById: Map<string, Task>,
+): boolean =>
+  (task.dependsOn || []).every(
+    (depId) => tasksById.get(depId)?.status === TaskStatus.Done,
+  );
+
+const compareSortKeys = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+const createdAtKey = (task: Task): number => Date.parse(task.createdAt) || 0;
+
+/**
+ * Counts every task that transitively depends on each task
+ */
+const countDownstreamDependents = (tasks: Task[]): Map<string, number> => {
+  const dependents = new Map<string, string[]>();
+  for (const task of tasks) {
+    for (const depId of task.dependsOn || []) {
+      dependents.set(depId, [...(dependents.get(depId) || []), task.id]);
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    const seen = new Set<string>();
+    const stack = [...(dependents.get(task.id) || [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id) || id === task.id) continue;
+      seen.add(id);
+      stack.push(...(dependents.get(id) || []));
+    }
+    counts.set(task.id, seen.size);
+  }
+  return counts;
+};
+
+/**
+ * Post-order position of each task in the subtask forest, so a subtree's
+ * leaves come before its parent and the whole subtree before its next sibling
+ */
+const depthFirstOrder = (tasks: Task[]): Map<string, number> => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const order = new Map<string, number>();
+  let position = 0;
+
+  const visit = (task: Task) => {
+    if (order.has(task.id)) return;
+    order.set(task.id, -1); // guards against subtask cycles
+    for (const subtaskId of task.subtaskIds || []) {
+      const subtask = byId.get(subtaskId);
+      if (subtask) visit(subtask);
+    }
+    order.set(task.id, position++);
+  };
+
+  [...tasks]
+    .filter((task) => !task.parentId || !byId.has(task.parentId))
+    .sort((a, b) => createdAtKey(a) - createdAtKey(b))
+    .forEach(visit);
+  tasks.forEach(visit);
+  return order;
+};
+
+const rankCandidates = (
+  candidates: Task[],
+  tasks: Task[],
+  strategy: SchedulingStrategy,
+): RankedCandidate[] => {
+  switch (strategy) {
+    case "critical-path": {
+      const downstream = countDownstreamDependents(tasks);
+      return candidates.map((task) => {
+        const count = downstream.get(task.id) || 0;
+        return {
+          task,
+          reason: `Unblocks ${count} downstream task(s); priority ${task.priority}.`,
+          sortKey: [-count, -PRIORITY_RANK[task.priority], createdAtKey(task)],
+        };
+      });
+    }
+    case "fifo":
+      return candidates.map((task) => ({
+        task,
+        reason: `Ready since creation at ${task.createdAt}.`,
+        sortKey: [createdAtKey(task)],
+      }));
+    case "depth-first": {
+      const order = depthFirstOrder(tasks);
+      return candidates.map((task) => ({
+        task,
+        reason: task.parentId
+          ? `Next in depth-first order within the subtree of '${task.parentId}'.`
+          : "Next in depth-first order among top-level tasks.",
+        sortKey: [order.get(task.id) ?? Number.MAX_SAFE_INTEGER],
+      }));
+    }
+    case "priority":
+    default:
+      return candidates.map((task) => ({
+        task,
+        reason: `Priority ${task.priority}; created at ${task.createdAt}.`,
+        sortKey: [-PRIORITY_RANK[task.priority], createdAtKey(task)],
+      }));
+  }
+};
+
+/**
+ * Ranks every pending task whose dependencies are met, best first. Ties fall
+ * back to createdAt order.
+ * @param isEligible Optional extra filter, e.g. what a given agent may take
+ * @param archivedTasks Tasks of the request that left the active table, so
+ *   dependencies that were done and archived count as met
+ */
+export const rankReadyTasks = (
+  tasks: Task[],
+  strategy: SchedulingStrategy,
+  isEligible: (task: Task) => boolean = () => true,
+  archivedTasks: Task[] = [],
+): ScheduledCandidate[] => {
+  const tasksById = new Map(
+    [...archivedTasks, ...tasks].map((task) => [task.id, task]),
+  );
+  const candidates = tasks.filter(
+    (task) =>
+      task.status === TaskStatus.Pending &&
+      areDependenciesMet(task, tasksById) &&
+      isEligible(task),
+  );
+
+  return rankCandidates(candidates, tasks, strategy)
+    .sort(
+      (a, b) =>
+        compareSortKeys(a.sortKey, b.sortKey) ||
+        createdAtKey(a.task) - createdAtKey(b.task),
+    )
+    .map(({ task, reason }) => ({ task, reason }));
+};
+
+/**
+ * Picks the next ready task using the given strategy
+ * @returns null when no pending task is ready
+ */
+export const scheduleNextTask = (
+  tasks: Task[],
+  strategy: SchedulingStrategy,
+  runnerUpCount: number = 3,
+  isEligible?: (task: Task) => boolean,
+  archivedTasks: Task[] = [],
+): ScheduleDecision | null => {
+  const [chosen, ...rest] = rankReadyTasks(
+    tasks,
+    strategy,
+    isEligible,
+    archivedTasks,
+  );
+  if (!chosen) return null;
+
+  return {
+    strategy,
+    chosen,
+    runnersUp: rest.slice(0, runnerUpCount),
+  };
+};
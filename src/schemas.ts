@@ -1,5 +1,10 @@
 import { z } from "zod";
-import { TaskStatus, TaskPriority, TaskType } from "./interfaces.js";
+import {
+  TaskStatus,
+  TaskPriority,
+  TaskType,
+  AgentStatus,
+} from "./interfaces.js";
 
 //
 export const TaskPriorityEnum = z.enum([
@@ -20,6 +25,24 @@ export const TaskTypeEnum = z.enum([
   TaskType.Generic,
 ]);
 
+export const TaskStatusEnum = z.enum([
+  TaskStatus.Pending,
+  TaskStatus.Active,
+  TaskStatus.Done,
+  TaskStatus.Failed,
+  TaskStatus.RequiresClarification,
+  TaskStatus.InReview,
+  TaskStatus.Blocked,
+]);
+
+export const AgentStatusEnum = z.enum([
+  AgentStatus.Available,
+  AgentStatus.Paused,
+  AgentStatus.Offline,
+]);
+
+// in-review is only entered through submit_task_for_review, and blocked is
+// derived from failed or deleted dependencies
 export const SettableTaskStatusEnum = z.enum([
   TaskStatus.Pending,
   TaskStatus.Active,
@@ -28,6 +51,12 @@ export const SettableTaskStatusEnum = z.enum([
   TaskStatus.RequiresClarification,
 ]);
 
+export const RollupPolicyEnum = z.enum([
+  "all-must-succeed",
+  "best-effort",
+  "fail-fast",
+]);
+
 export const BaseTaskDefinitionSchema = z.object({
   title: z.string().min(1),
   description: z.string(),
@@ -36,6 +65,8 @@ export const BaseTaskDefinitionSchema = z.object({
   dependsOn: z.array(z.string()).optional(),
   artifactsGenerated: z.array(z.string()).optional(),
   environmentContext: z.string().optional(),
+  assignee: z.string().optional(),
+  rollupPolicy: RollupPolicyEnum.optional(),
 });
 
 export const RequestPlanningSchema = z.object({
@@ -44,8 +75,17 @@ export const RequestPlanningSchema = z.object({
   tasks: z.array(BaseTaskDefinitionSchema).min(1),
 });
 
+export const SchedulingStrategyEnum = z.enum([
+  "priority",
+  "critical-path",
+  "fifo",
+  "depth-first",
+]);
+
 export const GetNextTaskSchema = z.object({
   requestId: z.string(),
+  strategy: SchedulingStrategyEnum.optional(),
+  agentId: z.string().optional(),
 });
 
 export const MarkTaskDoneSchema = z.object({
@@ -85,6 +125,8 @@ export const UpdateTaskSchema = z.object({
   artifactsGenerated: z.array(z.string()).optional(),
   environmentContext: z.string().optional(),
   suggestedRetryStrategy: z.string().optional(),
+  assignee: z.string().optional(), // empty string clears
+  rollupPolicy: RollupPolicyEnum.optional(),
 });
 
 export const AddDependencySchema = z.object({
@@ -167,3 +209,188 @@ export const MergeTasksSchema = z.object({
   newEnvironmentContext: z.string().optional(),
   newArtifactsGenerated: z.array(z.string()).optional(),
 });
+
+export const ImportLegacyJsonSchema = z.object({
+  tasksFilePath: z.string().optional(),
+  completedTasksFilePath: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+export const ExportFormatEnum = z.enum(["markdown", "json", "csv"]);
+
+export const ExportRequestSchema = z.object({
+  requestId: z.string(),
+  format: ExportFormatEnum.optional(),
+  includeArchived: z.boolean().optional(),
+  outputPath: z.string().optional(),
+});
+
+export const RestoreTaskTreeSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+  resetStatuses: z.boolean().optional(),
+  reopenRequest: z.boolean().optional(),
+});
+
+export const SearchTasksSchema = z.object({
+  query: z.string().min(1),
+  status: TaskStatusEnum.optional(),
+  type: TaskTypeEnum.optional(),
+  priority: TaskPriorityEnum.optional(),
+  requestId: z.string().optional(),
+  createdAfter: z.string().optional(),
+  createdBefore: z.string().optional(),
+  scope: z.enum(["active", "archived", "all"]).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+export const GetTaskHistorySchema = z
+  .object({
+    taskId: z.string().optional(),
+    requestId: z.string().optional(),
+    limit: z.number().int().min(1).max(1000).optional(),
+  })
+  .refine((params) => params.taskId || params.requestId, {
+    message: "Either taskId or requestId is required.",
+  });
+
+export const UndoSchema = z.object({
+  requestId: z.string(),
+  steps: z.number().int().min(1).max(20).optional(),
+});
+
+export const RetryTaskSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+});
+
+export const RecordTaskCostSchema = z
+  .object({
+    requestId: z.string(),
+    taskId: z.string(),
+    inputTokens: z.number().int().min(0).optional(),
+    outputTokens: z.number().int().min(0).optional(),
+    toolCalls: z.number().int().min(0).optional(),
+    wallClockMinutes: z.number().min(0).optional(),
+    note: z.string().optional(),
+  })
+  .refine(
+    (params) =>
+      params.inputTokens !== undefined ||
+      params.outputTokens !== undefined ||
+      params.toolCalls !== undefined ||
+      params.wallClockMinutes !== undefined,
+    {
+      message:
+        "At least one of inputTokens, outputTokens, toolCalls or wallClockMinutes is required.",
+    },
+  );
+
+export const GetRequestCostReportSchema = z.object({
+  requestId: z.string(),
+  includeArchived: z.boolean().optional().default(true),
+});
+
+export const SubmitTaskForReviewSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+  completedDetails: z.string().optional(),
+  artifactsGenerated: z.array(z.string()).optional(),
+  note: z.string().optional(),
+});
+
+export const AddTaskFeedbackSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+  verdict: z.enum(["approve", "request-changes"]),
+  comment: z.string().min(1),
+  reviewer: z.string().optional(),
+});
+
+export const RequestClarificationSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+  questions: z.array(z.string().min(1)).min(1),
+  context: z.string().optional(),
+});
+
+export const AnswerClarificationSchema = z.object({
+  requestId: z.string(),
+  questionId: z.string(),
+  answer: z.string().min(1),
+  answeredBy: z.string().optional(),
+});
+
+export const ListOpenQuestionsSchema = z.object({
+  requestId: z.string().optional(),
+});
+
+export const SetSchedulingStrategySchema = z.object({
+  requestId: z.string(),
+  strategy: z.union([SchedulingStrategyEnum, z.literal("default")]),
+});
+
+export const ClaimNextTaskSchema = z.object({
+  requestId: z.string(),
+  agentId: z.string().min(1),
+  leaseMinutes: z.number().positive().optional(),
+  strategy: SchedulingStrategyEnum.optional(),
+});
+
+export const HeartbeatTaskSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+  agentId: z.string().min(1),
+  leaseMinutes: z.number().positive().optional(),
+});
+
+export const ReleaseTaskSchema = z.object({
+  requestId: z.string(),
+  taskId: z.string(),
+  agentId: z.string().min(1),
+  reason: z.string().optional(),
+});
+
+export const ListActionableTasksSchema = z.object({
+  requestId: z.string(),
+  strategy: SchedulingStrategyEnum.optional(),
+});
+
+export const RegisterAgentSchema = z.object({
+  agentId: z.string().min(1),
+  name: z.string().min(1).optional(),
+  taskTypes: z.array(TaskTypeEnum).optional(),
+  maxConcurrency: z.number().int().min(1).optional(),
+  status: AgentStatusEnum.optional(),
+});
+
+export const ListAgentsSchema = z.object({
+  status: AgentStatusEnum.optional(),
+});
+
+export const RenderTaskGraphSchema = z.object({
+  requestId: z.string(),
+  format: z.enum(["mermaid", "dot"]).optional(), // omitted = both
+  highlightCriticalPath: z.boolean().optional(),
+  highlightBlocked: z.boolean().optional(),
+});
+
+const TemplateVariableName = z
+  .string()
+  .regex(/^[A-Za-z_][\w-]*$/, "Variable names are letters, digits, _ and -");
+
+export const SaveTemplateSchema = z.object({
+  requestId: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  placeholders: z.record(TemplateVariableName, z.string()).optional(), // variable -> literal text it replaces
+  overwrite: z.boolean().optional(),
+});
+
+export const ListTemplatesSchema = z.object({});
+
+export const InstantiateTemplateSchema = z.object({
+  name: z.string(),
+  variables: z.record(z.string()).optional(),
+  originalRequest: z.string().min(1).optional(), // overrides the template's
+});
@@ -2,10 +2,20 @@ import { z } from "zod";
 import { TaskRepository } from "./taskRepository.js";
 import {
   Task,
+  ArchivedTask,
   TaskStatus,
   TaskPriority,
   TaskType,
   RequestEntry,
+  TaskSearchResult,
+  TaskEvent,
+  FeedbackEntry,
+  ClarificationQuestion,
+  Agent,
+  AgentStatus,
+  AgentWorkload,
+  PlanTemplate,
+  RepositoryChangeListener,
   NotFoundError,
   InvalidOperationError,
 } from "./interfaces.js";
@@ -28,8 +38,77 @@ import {
   LogTaskCompletionSummarySchema,
   SplitTaskSchema,
   MergeTasksSchema,
+  ImportLegacyJsonSchema,
+  ExportRequestSchema,
+  RestoreTaskTreeSchema,
+  SearchTasksSchema,
+  GetTaskHistorySchema,
+  UndoSchema,
+  RetryTaskSchema,
+  RecordTaskCostSchema,
+  GetRequestCostReportSchema,
+  SubmitTaskForReviewSchema,
+  AddTaskFeedbackSchema,
+  RequestClarificationSchema,
+  AnswerClarificationSchema,
+  ListOpenQuestionsSchema,
+  SetSchedulingStrategySchema,
+  ClaimNextTaskSchema,
+  HeartbeatTaskSchema,
+  ReleaseTaskSchema,
+  ListActionableTasksSchema,
+  RegisterAgentSchema,
+  ListAgentsSchema,
+  RenderTaskGraphSchema,
+  SaveTemplateSchema,
+  ListTemplatesSchema,
+  InstantiateTemplateSchema,
 } from "./schemas.js";
+import {
+  scheduleNextTask,
+  rankReadyTasks,
+  areDependenciesMet,
+  DEFAULT_SCHEDULING_STRATEGY,
+} from "./scheduler.js";
+import {
+  canAgentTakeTask,
+  agentUnavailableReason,
+  computeAgentWorkloads,
+} from "./agents.js";
+import { renderTaskGraph, analyzeTaskGraph } from "./graphRenderer.js";
+import {
+  computeBlockingChanges,
+  describeBlockedChains,
+  formatBlockedChain,
+  BlockedChain,
+} from "./blocking.js";
+import { evaluateRollup, findUnsettledReason } from "./rollup.js";
+import {
+  captureTemplateTasks,
+  extractVariables,
+  fillPlaceholders,
+  insertPlaceholders,
+  mapTaskText,
+  taskTexts,
+} from "./templates.js";
+import { listResources, readResource, ResourceContents } from "./resources.js";
+import { getPrompt } from "./prompts.js";
+import { GetPromptResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { LegacyImporter, formatImportReport } from "./legacyImport.js";
+import { renderRequestExport } from "./exporters.js";
+import {
+  withEventNote,
+  getEventContext,
+  runWithEventContext,
+  LEASE_EXPIRY_TOOL_NAME,
+} from "./eventContext.js";
+import {
+  rollupTaskCosts,
+  totalCostForTasks,
+  formatCostTotals,
+} from "./costs.js";
 import * as fs from "node:fs/promises";
+import { randomUUID } from "node:crypto";
 import * as path from "node:path";
 import * as os from "node:os";
 
@@ -38,6 +117,8 @@ const COMPLETED_TASK_SUMMARIES_DIR_PATH = path.join(
   DEFAULT_DATA_DIR,
   "completed_task_summaries",
 );
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_LEASE_MINUTES = 15;
 
 export class TaskManagerServer {
   private taskRepository: TaskRepository;
@@ -55,9 +136,9 @@ export class TaskManagerServer {
     await fs.mkdir(COMPLETED_TASK_SUMMARIES_DIR_PATH, { recursive: true });
 
     this.isInitialized = true;
-    console.log("Meta Mind MCP Server initialized with SQLite backend.");
-    console.log(`Database path: ${this.taskRepository.constructor.name}`);
-    console.log(
+    console.error("Meta Mind MCP Server initialized with SQLite backend.");
+    console.error(`Database path: ${this.taskRepository.constructor.name}`);
+    console.error(
       `Task summaries directory: ${COMPLETED_TASK_SUMMARIES_DIR_PATH}`,
     );
   }
@@ -96,38 +177,22 @@ export class TaskManagerServer {
     return task;
   }
 
-  private _areAllDescendantsStatus(
-    task: Task,
-    targetStatus: TaskStatus,
-  ): boolean {
-    if (!task.subtaskIds || task.subtaskIds.length === 0) {
-      return task.status === targetStatus;
-    }
-
-    for (const subtaskId of task.subtaskIds) {
-      const subtask = this.taskRepository.findTaskById(subtaskId);
-      if (!subtask || !this._areAllDescendantsStatus(subtask, targetStatus)) {
-        return false;
-      }
-    }
-    return task.status === targetStatus;
+  private _findSubtasks(task: Task): Task[] {
+    return (task.subtaskIds || [])
+      .map(
+        (subtaskId) =>
+          this.taskRepository.findTaskById(subtaskId) ||
+          this.taskRepository.findArchivedTaskById(subtaskId),
+      )
+      .filter((subtask): subtask is Task => subtask !== null);
   }
 
-  private _isTaskTreeFullyTerminal(task: Task): boolean {
-    const terminalStatuses = [TaskStatus.Done, TaskStatus.Failed];
-    if (!terminalStatuses.includes(task.status)) return false;
-
-    if (!task.subtaskIds || task.subtaskIds.length === 0) {
-      return true;
-    }
-
-    for (const subtaskId of task.subtaskIds) {
-      const subtask = this.taskRepository.findTaskById(subtaskId);
-      if (!subtask || !this._isTaskTreeFullyTerminal(subtask)) {
-        return false;
-      }
-    }
-    return true;
+  /**
+   * Why a task tree cannot be archived under its rollup policies
+   * @returns null when the tree is settled
+   */
+  private _getUnsettledReason(task: Task): string | null {
+    return findUnsettledReason(task, (t) => this._findSubtasks(t));
   }
 
   private _collectTaskWithDescendants(
@@ -150,7 +215,7 @@ export class TaskManagerServer {
     requestId: string,
     task: Task,
   ): Promise<string> {
-    if (!this._isTaskTreeFullyTerminal(task)) {
+    if (this._getUnsettledReason(task)) {
       return "";
     }
 
@@ -159,26 +224,46 @@ export class TaskManagerServer {
     const taskIds = allTasksToArchive.map((t) => t.id);
 
     // Archive the task tree
-    const archivedCount = this.taskRepository.archiveTaskTree(
-      taskIds,
-      requestId,
-      request.originalRequest,
+    const archivedCount = withEventNote(
+      `Auto-archived: task tree '${task.id}' is settled.`,
+      () =>
+        this.taskRepository.archiveTaskTree(
+          taskIds,
+          requestId,
+          request.originalRequest,
+        ),
     );
 
     if (archivedCount > 0) {
-      // Check if request is now complete
-      const remainingTasks =
-        this.taskRepository.findTasksByRequestId(requestId);
-      if (remainingTasks.length === 0) {
-        this.taskRepository.updateRequestCompletion(requestId, true);
-      }
-
-      return ` Task tree '${task.id}' and ${archivedCount} descendant(s) auto-archived.`;
+      return ` Task tree '${task.id}' and ${archivedCount - 1} descendant(s) auto-archived.`;
     }
 
     return "";
   }
 
+  /**
+   * Marks the request completed once every remaining top-level tree is
+   * settled under its rollup policies, the same rule archiving follows. A
+   * failed root keeps the request open, since it can still be retried.
+   */
+  private _updateRequestCompletion(requestId: string): string {
+    const request = this._getRequestEntryOrThrow(requestId);
+    const remainingTasks = this.taskRepository.findTasksByRequestId(requestId);
+    const activeIds = new Set(remainingTasks.map((t) => t.id));
+    const allTreesSettled = remainingTasks
+      .filter((t) => !t.parentId || !activeIds.has(t.parentId))
+      .every((root) => this._getUnsettledReason(root) === null);
+    if (request.completed || !allTreesSettled) return "";
+
+    withEventNote(
+      remainingTasks.length === 0
+        ? "Auto-completed: no active tasks remain."
+        : "Auto-completed: every task tree is settled.",
+      () => this.taskRepository.updateRequestCompletion(requestId, true),
+    );
+    return " Request fully completed!";
+  }
+
   public async requestPlanning(
     params: z.infer<typeof RequestPlanningSchema>,
   ): Promise<object> {
@@ -209,6 +294,8 @@ export class TaskManagerServer {
         subtaskIds: [],
         artifactsGenerated: taskDef.artifactsGenerated || [],
         environmentContext: taskDef.environmentContext,
+        assignee: taskDef.assignee,
+        rollupPolicy: taskDef.rollupPolicy,
         createdAt: now,
         updatedAt: now,
       };
@@ -229,46 +316,116 @@ export class TaskManagerServer {
     params: z.infer<typeof GetNextTaskSchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const { requestId } = params;
+    const { requestId, agentId } = params;
+    this._expireLeases();
     const request = this._getRequestEntryOrThrow(requestId);
 
-    if (request.completed) {
+    const eligibility = agentId
+      ? this._getAgentEligibility(agentId, true)
+      : { isEligible: () => true, unavailableReason: null };
+    if (eligibility.unavailableReason) {
       return {
-        status: "request_completed",
-        message: `Request '${requestId}' is already completed.`,
+        status: "agent_unavailable",
+        message: eligibility.unavailableReason,
       };
     }
 
+    // Failed tasks that can still be retried, offered when nothing is pending.
+    // They are looked up first because they keep a request worth working on
+    // even if it was marked completed.
     const tasks = this.taskRepository.findTasksByRequestId(requestId);
+    const archivedTasks =
+      this.taskRepository.findArchivedTasksByRequestId(requestId);
+    const tasksById = new Map(
+      [...archivedTasks, ...tasks].map((task) => [task.id, task]),
+    );
+    const maxRetries = this._getMaxRetries();
+    const retryable = tasks.find(
+      (task) =>
+        task.status === TaskStatus.Failed &&
+        (task.retryCount || 0) <= maxRetries &&
+        areDependenciesMet(task, tasksById) &&
+        eligibility.isEligible(task),
+    );
 
-    // Find next actionable task (pending with no unmet dependencies)
-    for (const task of tasks) {
-      if (task.status !== TaskStatus.Pending) continue;
+    if (request.completed && !retryable) {
+      return {
+        status: "request_completed",
+        message: `Request '${requestId}' is already completed.`,
+      };
+    }
 
-      // Check if all dependencies are met
-      const hasUnmetDependencies = (task.dependsOn || []).some((depId) => {
-        const depTask = this.taskRepository.findTaskById(depId);
-        return !depTask || depTask.status !== TaskStatus.Done;
-      });
+    const strategy =
+      params.strategy ||
+      request.schedulingStrategy ||
+      DEFAULT_SCHEDULING_STRATEGY;
+    const blockedChains = this._getBlockedChains(requestId);
+    const blocked =
+      blockedChains.length > 0
+        ? { blockedChains: blockedChains.map(formatBlockedChain) }
+        : {};
+
+    // Pick the next actionable task (pending with no unmet dependencies)
+    const decision = scheduleNextTask(
+      tasks,
+      strategy,
+      3,
+      eligibility.isEligible,
+      archivedTasks,
+    );
+    if (decision) {
+      const { task, reason } = decision.chosen;
+      return {
+        status: "next_task",
+        task: {
+          id: task.id,
+          title: task.title,
+          priority: task.priority,
+          type: task.type,
+          status: task.status,
+        },
+        strategy,
+        reason,
+        runnersUp: decision.runnersUp.map((candidate) => ({
+          id: candidate.task.id,
+          title: candidate.task.title,
+          priority: candidate.task.priority,
+          reason: candidate.reason,
+        })),
+        ...blocked,
+        message: `Next task for '${requestId}' (${strategy}): '${task.title}'. ${reason}\n${this._formatTaskProgressTable(requestId)}`,
+      };
+    }
 
-      if (!hasUnmetDependencies) {
-        return {
-          status: "next_task",
-          task: {
-            id: task.id,
-            title: task.title,
-            priority: task.priority,
-            type: task.type,
-            status: task.status,
-          },
-          message: `Next task for '${requestId}': '${task.title}'.\n${this._formatTaskProgressTable(requestId)}`,
-        };
-      }
+    // Fall back to failed tasks that can still be retried
+    if (retryable) {
+      return {
+        status: "retryable_task",
+        task: {
+          id: retryable.id,
+          title: retryable.title,
+          priority: retryable.priority,
+          type: retryable.type,
+          status: retryable.status,
+          retryCount: retryable.retryCount,
+          failureReason: retryable.failureReason,
+          suggestedRetryStrategy: retryable.suggestedRetryStrategy,
+        },
+        ...blocked,
+        message: `No pending tasks for '${requestId}'. Task '${retryable.title}' failed ${retryable.retryCount} time(s) and can be retried with retry_task.\n${this._formatTaskProgressTable(requestId)}`,
+      };
     }
 
+    let message = agentId
+      ? `No actionable tasks for agent '${agentId}' in request '${requestId}'. Remaining tasks are completed, blocked, or need a different type or assignee.`
+      : `No actionable tasks found for request '${requestId}'. All tasks are either completed, failed, blocked, or waiting for dependencies.`;
+    if (blockedChains.length > 0) {
+      message += `\n${this._formatBlockedChains(blockedChains)}`;
+    }
     return {
       status: "no_actionable_tasks",
-      message: `No actionable tasks found for request '${requestId}'. All tasks are either completed, failed, or waiting for dependencies.`,
+      ...blocked,
+      message,
     };
   }
 
@@ -284,7 +441,14 @@ export class TaskManagerServer {
       return { status: "already_done", message: "Task already done." };
     }
     if (task.status === TaskStatus.Failed) {
-      throw new InvalidOperationError("Task failed. Cannot mark as done.");
+      throw new InvalidOperationError(
+        "Task failed. Cannot mark as done. Use retry_task to move it back to pending first.",
+      );
+    }
+    if (task.status === TaskStatus.Blocked) {
+      throw new InvalidOperationError(
+        `Task is blocked by '${task.blockedBy}'. Cannot mark as done until the root cause is done or the dependency is removed.`,
+      );
     }
 
     // Update task in database
@@ -301,23 +465,14 @@ export class TaskManagerServer {
 
     let message = `Task '${taskId}' marked done.`;
 
-    // Handle parent completion logic
-    const parentCompletionResult = await this._handleParentCompletion(
+    // Roll the outcome up through the parents
+    const rollupResult = await this._handleParentRollup(
       requestId,
-      task,
+      this.taskRepository.findTaskById(taskId)!,
     );
-    message += parentCompletionResult.messageAugmentation;
-
-    // Check if entire request is complete
-    const remainingTasks = this.taskRepository.findTasksByRequestId(requestId);
-    const allTasksTerminal = remainingTasks.every(
-      (t) => t.status === TaskStatus.Done || t.status === TaskStatus.Failed,
-    );
-
-    if (allTasksTerminal) {
-      this.taskRepository.updateRequestCompletion(requestId, true);
-      message += " Request fully completed!";
-    }
+    message += rollupResult.messageAugmentation;
+    message += this._refreshBlockedTasks(requestId);
+    message += this._updateRequestCompletion(requestId);
 
     return {
       status: "done",
@@ -355,6 +510,14 @@ export class TaskManagerServer {
     if (suggestedRetryStrategy)
       message += ` Retry strategy: ${suggestedRetryStrategy}`;
 
+    const rollupResult = await this._handleParentRollup(
+      requestId,
+      this.taskRepository.findTaskById(taskId)!,
+    );
+    message += rollupResult.messageAugmentation;
+    message += this._refreshBlockedTasks(requestId);
+    message += this._updateRequestCompletion(requestId);
+
     return {
       status: "failed",
       message,
@@ -378,8 +541,9 @@ export class TaskManagerServer {
 
     // Update other fields
     const changedCount = this.taskRepository.updateTask(taskId, updates);
+    const blocking = this._refreshBlockedTasks(requestId);
 
-    if (changedCount === 0) {
+    if (changedCount === 0 && !blocking) {
       return {
         status: "no_changes",
         message: "No changes were made to the task.",
@@ -388,7 +552,7 @@ export class TaskManagerServer {
 
     return {
       status: "updated",
-      message: `Task '${taskId}' updated successfully.`,
+      message: `Task '${taskId}' updated successfully.${blocking}`,
     };
   }
 
@@ -417,7 +581,7 @@ export class TaskManagerServer {
 
     return {
       status: "deleted",
-      message: `Task '${taskId}' and ${deletedCount - 1} descendant(s) deleted.`,
+      message: `Task '${taskId}' and ${deletedCount - 1} descendant(s) deleted.${this._refreshBlockedTasks(requestId)}`,
     };
   }
 
@@ -466,7 +630,7 @@ export class TaskManagerServer {
     return {
       status: "subtask_added",
       subtaskId,
-      message: `Subtask '${subtaskId}' added to parent '${parentTaskId}'.`,
+      message: `Subtask '${subtaskId}' added to parent '${parentTaskId}'.${this._refreshBlockedTasks(requestId)}`,
     };
   }
 
@@ -496,7 +660,7 @@ export class TaskManagerServer {
 
     return {
       status: "subtask_removed",
-      message: `Subtask '${subtaskId}' and ${deletedCount - 1} descendant(s) removed.`,
+      message: `Subtask '${subtaskId}' and ${deletedCount - 1} descendant(s) removed.${this._refreshBlockedTasks(requestId)}`,
     };
   }
 
@@ -508,9 +672,10 @@ export class TaskManagerServer {
     const request = this._getRequestEntryOrThrow(requestId);
     const task = this._getTaskOrThrow(request, taskId);
 
-    if (!this._areAllDescendantsStatus(task, TaskStatus.Done)) {
+    const unsettledReason = this._getUnsettledReason(task);
+    if (unsettledReason) {
       throw new InvalidOperationError(
-        "Cannot archive: task tree is not fully completed.",
+        `Cannot archive: task tree is not settled under its rollup policies (${unsettledReason}).`,
       );
     }
 
@@ -523,16 +688,93 @@ export class TaskManagerServer {
       request.originalRequest,
     );
 
-    // Check if request is now complete
-    const remainingTasks = this.taskRepository.findTasksByRequestId(requestId);
-    if (remainingTasks.length === 0) {
-      this.taskRepository.updateRequestCompletion(requestId, true);
-    }
-
     return {
       status: "archived",
       archivedCount,
-      message: `Task tree '${taskId}' with ${archivedCount} task(s) archived successfully.`,
+      message: `Task tree '${taskId}' with ${archivedCount} task(s) archived successfully.${this._updateRequestCompletion(requestId)}`,
+    };
+  }
+
+  public async restoreTaskTree(
+    params: z.infer<typeof RestoreTaskTreeSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, taskId, resetStatuses = false } = params;
+    const reopenRequest = params.reopenRequest ?? resetStatuses;
+    const request = this._getRequestEntryOrThrow(requestId);
+
+    const rootTask = this.taskRepository.findArchivedTaskById(taskId);
+    if (!rootTask) {
+      throw new NotFoundError(`Archived task '${taskId}' not found.`);
+    }
+    if (rootTask.originalRequestId !== requestId) {
+      throw new InvalidOperationError(
+        `Archived task '${taskId}' belongs to request '${rootTask.originalRequestId}', not '${requestId}'.`,
+      );
+    }
+
+    // Collect the archived subtree, parents before children
+    const archivedTree: ArchivedTask[] = [];
+    const collect = (task: ArchivedTask) => {
+      archivedTree.push(task);
+      for (const subtaskId of task.subtaskIds || []) {
+        const subtask = this.taskRepository.findArchivedTaskById(subtaskId);
+        if (subtask && subtask.originalRequestId === requestId) {
+          collect(subtask);
+        }
+      }
+    };
+    collect(rootTask);
+
+    const conflicting = archivedTree.filter((t) =>
+      request.tasks.some((active) => active.id === t.id),
+    );
+    if (conflicting.length > 0) {
+      throw new InvalidOperationError(
+        `Cannot restore: task ID(s) ${conflicting.map((t) => `'${t.id}'`).join(", ")} already exist in active tasks.`,
+      );
+    }
+
+    // Re-attach to the original parent only if it is still active
+    const restoredIds = new Set(archivedTree.map((t) => t.id));
+    const activeParent = rootTask.parentId
+      ? request.tasks.find((t) => t.id === rootTask.parentId)
+      : undefined;
+
+    const restoredCount = this.taskRepository.transaction(() => {
+      const count = this.taskRepository.restoreTaskTree(
+        requestId,
+        archivedTree.map((t) => ({
+          taskId: t.id,
+          parentId:
+            t.id === rootTask.id
+              ? activeParent?.id || null
+              : t.parentId || null,
+          subtaskIds: (t.subtaskIds || []).filter((id) => restoredIds.has(id)),
+          status: resetStatuses ? TaskStatus.Pending : t.status,
+        })),
+      );
+
+      if (activeParent) {
+        this.taskRepository.addSubtask(activeParent.id, rootTask.id);
+      }
+      if (reopenRequest && request.completed) {
+        this.taskRepository.updateRequestCompletion(requestId, false);
+      }
+      return count;
+    });
+
+    let message = `Task tree '${taskId}' with ${restoredCount} task(s) restored to request '${requestId}'.`;
+    if (activeParent) message += ` Re-linked to parent '${activeParent.id}'.`;
+    if (resetStatuses) message += " Statuses reset to pending.";
+    if (reopenRequest && request.completed) message += " Request reopened.";
+
+    return {
+      status: "restored",
+      restoredCount,
+      restoredTaskIds: archivedTree.map((t) => t.id),
+      message,
+      taskProgress: this._formatTaskProgressTable(requestId),
     };
   }
 
@@ -568,156 +810,1191 @@ export class TaskManagerServer {
     };
   }
 
-  public async openTaskDetails(
-    params: z.infer<typeof OpenTaskDetailsSchema>,
+  public async searchTasks(
+    params: z.infer<typeof SearchTasksSchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const { taskId } = params;
-    const task = this._getTaskFromAnyRequestOrThrow(taskId);
+    const { query, ...filters } = params;
+    const results = this.taskRepository.searchTasks(query, filters);
 
     return {
-      status: "task_details",
-      task,
+      status: "search_results",
+      query,
+      count: results.length,
+      results,
+      message:
+        results.length === 0
+          ? `No tasks match '${query}'.`
+          : this._formatSearchResults(results),
     };
   }
 
-  public async listRequests(
-    params: z.infer<typeof ListRequestsSchema>,
+  public async getTaskHistory(
+    params: z.infer<typeof GetTaskHistorySchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const requests = this.taskRepository.findAllRequests();
+    const { taskId, requestId, limit } = params;
+
+    let events: TaskEvent[];
+    let subject: string;
+    if (taskId) {
+      events = this.taskRepository.findEventsByTaskId(taskId, limit);
+      subject = `task '${taskId}'`;
+    } else {
+      this._getRequestEntryOrThrow(requestId!);
+      events = this.taskRepository.findEventsByRequestId(requestId!, limit);
+      subject = `request '${requestId}'`;
+    }
 
     return {
-      status: "requests_listed",
-      requests: this._formatRequestsList(requests),
-      count: requests.length,
+      status: "task_history",
+      count: events.length,
+      events,
+      message:
+        events.length === 0
+          ? `No recorded events for ${subject}.`
+          : this._formatTaskHistory(events),
     };
   }
 
-  public async addTasksToRequest(
-    params: z.infer<typeof AddTasksToRequestSchema>,
+  public async undo(params: z.infer<typeof UndoSchema>): Promise<object> {
+    this._assertInitialized();
+    const { requestId, steps = 1 } = params;
+    this._getRequestEntryOrThrow(requestId);
+
+    const undone = this.taskRepository.undoLastOperations(requestId, steps);
+    if (undone.length === 0) {
+      return {
+        status: "nothing_to_undo",
+        message: `No recorded changes to undo for request '${requestId}'.`,
+      };
+    }
+
+    const summary = undone
+      .map((op) => `'${op.toolName || "unknown"}' (${op.eventCount} change(s))`)
+      .join(", ");
+    const requestStillExists = this.taskRepository.requestExists(requestId);
+
+    return {
+      status: "undone",
+      undone,
+      message: `Undid ${undone.length} operation(s) on request '${requestId}': ${summary}.`,
+      taskProgress: requestStillExists
+        ? this._formatTaskProgressTable(requestId)
+        : `Request '${requestId}' no longer exists.`,
+    };
+  }
+
+  public async retryTask(
+    params: z.infer<typeof RetryTaskSchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const { requestId, tasks } = params;
+    const { requestId, taskId } = params;
     const request = this._getRequestEntryOrThrow(requestId);
+    const task = this._getTaskOrThrow(request, taskId);
 
-    const now = new Date().toISOString();
-    const createdTasks: Task[] = [];
+    if (task.status !== TaskStatus.Failed) {
+      throw new InvalidOperationError(
+        `Task '${taskId}' is ${task.status}. Only failed tasks can be retried.`,
+      );
+    }
 
-    for (const taskDef of tasks) {
-      const taskId = this.taskRepository.getNextTaskId();
-      const task: Task = {
-        id: taskId,
-        title: taskDef.title,
-        description: taskDef.description,
-        status: TaskStatus.Pending,
-        priority: taskDef.priority || TaskPriority.Medium,
-        type: taskDef.type,
-        dependsOn: taskDef.dependsOn || [],
-        parentId: undefined,
-        subtaskIds: [],
-        artifactsGenerated: taskDef.artifactsGenerated || [],
-        environmentContext: taskDef.environmentContext,
-        createdAt: now,
-        updatedAt: now,
+    const maxRetries = this._getMaxRetries();
+    const failures = task.retryCount || 0;
+
+    // Each outcome is one transaction, so a failure partway cannot leave the
+    // task half escalated or half reset
+    if (failures > maxRetries) {
+      this.taskRepository.transaction(() => {
+        withEventNote(
+          `Escalated: failed ${failures} time(s), max retries is ${maxRetries}.`,
+          () =>
+            this.taskRepository.resetFailedTask(
+              taskId,
+              TaskStatus.RequiresClarification,
+            ),
+        );
+        this.taskRepository.createClarificationQuestions(
+          requestId,
+          taskId,
+          [
+            `Task failed ${failures} time(s), exceeding the retry limit of ${maxRetries}. How should it proceed?`,
+          ],
+          task.failureReason,
+          getEventContext().actor,
+        );
+      });
+      return {
+        status: "escalated",
+        retryCount: failures,
+        maxRetries,
+        failureHistory: task.failureHistory,
+        message: `Task '${taskId}' has failed ${failures} time(s), exceeding the maximum of ${maxRetries} retries. Marked as requires-clarification with a question raised (see list_open_questions).`,
+        taskProgress: this._formatTaskProgressTable(requestId),
       };
+    }
 
-      this.taskRepository.createTask(task, requestId);
-      createdTasks.push(task);
+    const reopened: string[] = [];
+    const blockingMessage = this.taskRepository.transaction(() => {
+      this.taskRepository.resetFailedTask(taskId, TaskStatus.Pending);
+      if (request.completed) {
+        this.taskRepository.updateRequestCompletion(requestId, false);
+      }
+
+      // Parents failed by their rollup policy get another chance too
+      withEventNote(`Reopened: subtask '${taskId}' is being retried.`, () => {
+        let parentId = task.parentId;
+        while (
+          parentId &&
+          this.taskRepository.reopenRolledUpTask(parentId) > 0
+        ) {
+          reopened.push(parentId);
+          parentId = this.taskRepository.findTaskById(parentId)?.parentId;
+        }
+      });
+      return this._refreshBlockedTasks(requestId);
+    });
+
+    let message = `Task '${taskId}' moved back to pending (retry ${failures} of ${maxRetries}).`;
+    if (task.suggestedRetryStrategy)
+      message += ` Retry strategy: ${task.suggestedRetryStrategy}`;
+    if (reopened.length > 0) {
+      message += ` Reopened parent(s) failed by rollup: ${reopened.join(", ")}.`;
+    }
+    message += blockingMessage;
+    const waiting = this._getBlockedChains(requestId).filter(
+      (chain) => chain.rootCauseId === taskId,
+    );
+    if (waiting.length > 0) {
+      message += ` ${waiting.length} dependent task(s) stay blocked until it is done.`;
     }
 
     return {
-      status: "tasks_added",
-      tasksCreated: createdTasks.length,
-      message: `${createdTasks.length} task(s) added to request '${requestId}'.`,
+      status: "retrying",
+      retryCount: failures,
+      maxRetries,
+      failureHistory: task.failureHistory,
+      message,
+      taskProgress: this._formatTaskProgressTable(requestId),
     };
   }
 
-  public async addDependency(
-    params: z.infer<typeof AddDependencySchema>,
+  public async recordTaskCost(
+    params: z.infer<typeof RecordTaskCostSchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const { requestId, taskId, dependsOnTaskId } = params;
+    const { requestId, taskId, note } = params;
     const request = this._getRequestEntryOrThrow(requestId);
     this._getTaskOrThrow(request, taskId);
-    this._getTaskOrThrow(request, dependsOnTaskId);
 
-    const updated = this.taskRepository.addDependency(taskId, dependsOnTaskId);
-    if (updated === 0) {
-      return {
-        status: "dependency_exists",
-        message: "Dependency already exists or task not found.",
-      };
+    const entry = {
+      inputTokens: params.inputTokens || 0,
+      outputTokens: params.outputTokens || 0,
+      toolCalls: params.toolCalls || 0,
+      wallClockMinutes: params.wallClockMinutes || 0,
+      ...(note ? { note } : {}),
+      recordedAt: new Date().toISOString(),
+    };
+    this.taskRepository.appendTaskCost(taskId, entry);
+
+    const tasks = this.taskRepository.findTasksByRequestId(requestId);
+    const taskCosts = rollupTaskCosts(tasks).get(taskId)!;
+    const requestTotals = totalCostForTasks([
+      ...tasks,
+      ...this.taskRepository.findArchivedTasksByRequestId(requestId),
+    ]);
+
+    return {
+      status: "cost_recorded",
+      entry,
+      taskCosts,
+      requestTotals,
+      message: `Cost recorded for task '${taskId}'. Task total: ${formatCostTotals(taskCosts.total)}. Request total: ${formatCostTotals(requestTotals)}.`,
+    };
+  }
+
+  public async getRequestCostReport(
+    params: z.infer<typeof GetRequestCostReportSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, includeArchived } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    const archivedTasks = includeArchived
+      ? this.taskRepository.findArchivedTasksByRequestId(requestId)
+      : [];
+
+    const rollups = rollupTaskCosts([...request.tasks, ...archivedTasks]);
+    const taskCosts = [
+      ...request.tasks.map((task) => ({ task, location: "active" })),
+      ...archivedTasks.map((task) => ({ task, location: "archived" })),
+    ].map(({ task, location }) => ({
+      taskId: task.id,
+      title: task.title,
+      status: task.status,
+      location,
+      entryCount: (task.costEntries || []).length,
+      ...rollups.get(task.id)!,
+    }));
+
+    const totals = totalCostForTasks([...request.tasks, ...archivedTasks]);
+    const lines = [`Cost Report for '${requestId}':`];
+    lines.push(`Total: ${formatCostTotals(totals)}`);
+    lines.push("");
+    lines.push("ID | Title | Location | Own | Total");
+    lines.push("---|-------|----------|-----|------");
+    for (const cost of taskCosts) {
+      const title =
+        cost.title.length > 30
+          ? cost.title.substring(0, 27) + "..."
+          : cost.title;
+      lines.push(
+        `${cost.taskId} | ${title} | ${cost.location} | ${formatCostTotals(cost.own)} | ${formatCostTotals(cost.total)}`,
+      );
     }
 
     return {
-      status: "dependency_added",
-      message: `Task '${taskId}' now depends on '${dependsOnTaskId}'.`,
+      status: "cost_report",
+      requestId,
+      totals,
+      activeTotals: totalCostForTasks(request.tasks),
+      archivedTotals: totalCostForTasks(archivedTasks),
+      tasks: taskCosts,
+      message: lines.join("\n"),
     };
   }
 
-  public async removeDependency(
-    params: z.infer<typeof RemoveDependencySchema>,
+  public async submitTaskForReview(
+    params: z.infer<typeof SubmitTaskForReviewSchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const { requestId, taskId, dependsOnTaskId } = params;
+    const { requestId, taskId, completedDetails, artifactsGenerated, note } =
+      params;
     const request = this._getRequestEntryOrThrow(requestId);
-    this._getTaskOrThrow(request, taskId);
+    const task = this._getTaskOrThrow(request, taskId);
 
-    const updated = this.taskRepository.removeDependency(
-      taskId,
-      dependsOnTaskId,
-    );
-    if (updated === 0) {
+    if (task.status === TaskStatus.InReview) {
       return {
-        status: "dependency_not_found",
-        message: "Dependency not found or task not found.",
+        status: "already_in_review",
+        message: `Task '${taskId}' is already awaiting review.`,
       };
     }
+    if (
+      task.status !== TaskStatus.Pending &&
+      task.status !== TaskStatus.Active
+    ) {
+      throw new InvalidOperationError(
+        `Task '${taskId}' is ${task.status}. Only pending or active tasks can be submitted for review.`,
+      );
+    }
+
+    const history = task.feedbackHistory || [];
+    const entry: FeedbackEntry = {
+      kind: "submission",
+      round: history.filter((e) => e.kind === "submission").length + 1,
+      comment: note,
+      author: getEventContext().actor,
+      completedDetails,
+      artifactsGenerated,
+      createdAt: new Date().toISOString(),
+    };
+    this.taskRepository.appendTaskFeedback(taskId, entry, TaskStatus.InReview);
 
     return {
-      status: "dependency_removed",
-      message: `Dependency from '${taskId}' to '${dependsOnTaskId}' removed.`,
+      status: "in_review",
+      round: entry.round,
+      message: `Task '${taskId}' submitted for review (round ${entry.round}).`,
+      taskProgress: this._formatTaskProgressTable(requestId),
     };
   }
 
-  public async validateDependencies(
-    params: z.infer<typeof ValidateDependenciesSchema>,
+  public async addTaskFeedback(
+    params: z.infer<typeof AddTaskFeedbackSchema>,
   ): Promise<object> {
     this._assertInitialized();
-    const { requestId } = params;
+    const { requestId, taskId, verdict, comment, reviewer } = params;
     const request = this._getRequestEntryOrThrow(requestId);
-    const tasks = this.taskRepository.findTasksByRequestId(requestId);
-
-    // Build task map for quick lookup
-    const taskMap = new Map<string, Task>();
-    tasks.forEach((task) => taskMap.set(task.id, task));
-
-    // Check for cycles using DFS
-    function detectCycle(
-      taskId: string,
-      visited: Set<string>,
-      recStack: Set<string>,
-    ): boolean {
-      if (recStack.has(taskId)) return true;
-      if (visited.has(taskId)) return false;
+    const task = this._getTaskOrThrow(request, taskId);
 
-      visited.add(taskId);
-      recStack.add(taskId);
+    if (task.status !== TaskStatus.InReview) {
+      throw new InvalidOperationError(
+        `Task '${taskId}' is ${task.status}. Feedback can only be added to tasks in review.`,
+      );
+    }
 
-      const task = taskMap.get(taskId);
-      if (task?.dependsOn) {
-        for (const depId of task.dependsOn) {
-          if (detectCycle(depId, visited, recStack)) return true;
-        }
-      }
+    const submission = (task.feedbackHistory || [])
+      .filter((e) => e.kind === "submission")
+      .pop();
+    const entry: FeedbackEntry = {
+      kind: verdict,
+      round: submission?.round || 1,
+      comment,
+      author: reviewer || getEventContext().actor,
+      createdAt: new Date().toISOString(),
+    };
 
-      recStack.delete(taskId);
-      return false;
+    if (verdict === "request-changes") {
+      this.taskRepository.appendTaskFeedback(taskId, entry, TaskStatus.Active);
+      return {
+        status: "changes_requested",
+        feedback: entry,
+        message: `Changes requested on task '${taskId}' (round ${entry.round}): ${comment}`,
+        taskProgress: this._formatTaskProgressTable(requestId),
+      };
     }
 
-    const visited = new Set<string>();
-    const issues: string[] = [];
+    // Record the approval, then finish the task like any other completion
+    this.taskRepository.appendTaskFeedback(taskId, entry, TaskStatus.InReview);
+    const doneResult = (await this.markTaskDone({
+      requestId,
+      taskId,
+      completedDetails: submission?.completedDetails,
+      artifactsGenerated: submission?.artifactsGenerated,
+    })) as { message: string; taskProgress: string };
+
+    return {
+      status: "approved",
+      feedback: entry,
+      message: `Task '${taskId}' approved (round ${entry.round}). ${doneResult.message}`,
+      taskProgress: doneResult.taskProgress,
+    };
+  }
+
+  public async requestClarification(
+    params: z.infer<typeof RequestClarificationSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, taskId, questions, context } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    const task = this._getTaskOrThrow(request, taskId);
+
+    if (task.status === TaskStatus.Done || task.status === TaskStatus.Failed) {
+      throw new InvalidOperationError(
+        `Task '${taskId}' is ${task.status}. Clarification can only be requested on open tasks.`,
+      );
+    }
+
+    const created = this.taskRepository.createClarificationQuestions(
+      requestId,
+      taskId,
+      questions,
+      context,
+      getEventContext().actor,
+    );
+    if (task.status !== TaskStatus.RequiresClarification) {
+      this.taskRepository.updateTaskStatus(
+        taskId,
+        TaskStatus.RequiresClarification,
+      );
+    }
+
+    return {
+      status: "clarification_requested",
+      questions: created,
+      message: `${created.length} question(s) raised on task '${taskId}': ${created.map((q) => q.questionId).join(", ")}. Task is now requires-clarification.`,
+      taskProgress: this._formatTaskProgressTable(requestId),
+    };
+  }
+
+  public async answerClarification(
+    params: z.infer<typeof AnswerClarificationSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, questionId, answer, answeredBy } = params;
+    this._getRequestEntryOrThrow(requestId);
+
+    const question = this.taskRepository.findQuestionById(questionId);
+    if (!question || question.requestId !== requestId) {
+      throw new NotFoundError(
+        `Question '${questionId}' not found in request '${requestId}'.`,
+      );
+    }
+    if (question.answer !== undefined) {
+      throw new InvalidOperationError(
+        `Question '${questionId}' was already answered.`,
+      );
+    }
+    // Questions stay with archived and deleted tasks, but only active tasks take answers
+    if (!this.taskRepository.findTaskById(question.taskId)) {
+      throw new InvalidOperationError(
+        `Task '${question.taskId}' of question '${questionId}' is archived or deleted.`,
+      );
+    }
+
+    this.taskRepository.answerQuestion(
+      questionId,
+      answer,
+      answeredBy || getEventContext().actor,
+    );
+
+    const openQuestions = this.taskRepository
+      .findQuestionsByTaskId(question.taskId)
+      .filter((q) => q.answer === undefined);
+    const task = this.taskRepository.findTaskById(question.taskId)!;
+
+    let message = `Question '${questionId}' answered.`;
+    if (openQuestions.length > 0) {
+      message += ` ${openQuestions.length} question(s) still open on task '${task.id}'.`;
+    } else if (task.status === TaskStatus.RequiresClarification) {
+      withEventNote("All clarification questions answered.", () =>
+        this.taskRepository.updateTaskStatus(task.id, TaskStatus.Pending),
+      );
+      message += ` All questions on task '${task.id}' resolved; task moved back to pending.`;
+    }
+
+    return {
+      status: "answered",
+      questionId,
+      taskId: task.id,
+      openQuestions: openQuestions.length,
+      message,
+      taskProgress: this._formatTaskProgressTable(requestId),
+    };
+  }
+
+  public async listOpenQuestions(
+    params: z.infer<typeof ListOpenQuestionsSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId } = params;
+    if (requestId) this._getRequestEntryOrThrow(requestId);
+
+    const questions = this.taskRepository.findOpenQuestions(requestId);
+    const scope = requestId ? `request '${requestId}'` : "any request";
+
+    return {
+      status: "open_questions",
+      count: questions.length,
+      questions,
+      message:
+        questions.length === 0
+          ? `No open questions for ${scope}.`
+          : this._formatOpenQuestions(questions),
+    };
+  }
+
+  public async setSchedulingStrategy(
+    params: z.infer<typeof SetSchedulingStrategySchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, strategy } = params;
+    this._getRequestEntryOrThrow(requestId);
+
+    this.taskRepository.updateRequestSchedulingStrategy(
+      requestId,
+      strategy === "default" ? null : strategy,
+    );
+
+    const effective =
+      strategy === "default" ? DEFAULT_SCHEDULING_STRATEGY : strategy;
+    return {
+      status: "scheduling_strategy_set",
+      requestId,
+      strategy: effective,
+      message: `Request '${requestId}' now schedules tasks by ${effective}${strategy === "default" ? " (server default)" : ""}.`,
+    };
+  }
+
+  public async claimNextTask(
+    params: z.infer<typeof ClaimNextTaskSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, agentId } = params;
+    const leaseMinutes = this._getLeaseMinutes(params.leaseMinutes);
+
+    // Pick and claim under the write lock so two agents never get the same task
+    const claim = this.taskRepository.immediateTransaction(() => {
+      this._expireLeases();
+      const request = this._getRequestEntryOrThrow(requestId);
+      if (request.completed) return { request, decision: null };
+
+      const eligibility = this._getAgentEligibility(agentId, false);
+      if (eligibility.unavailableReason) {
+        return {
+          request,
+          decision: null,
+          unavailableReason: eligibility.unavailableReason,
+        };
+      }
+
+      const strategy =
+        params.strategy ||
+        request.schedulingStrategy ||
+        DEFAULT_SCHEDULING_STRATEGY;
+      const decision = scheduleNextTask(
+        request.tasks,
+        strategy,
+        0,
+        eligibility.isEligible,
+        this.taskRepository.findArchivedTasksByRequestId(request.requestId),
+      );
+      if (decision) {
+        this.taskRepository.claimTask(
+          decision.chosen.task.id,
+          agentId,
+          this._leaseExpiry(leaseMinutes),
+        );
+      }
+      return { request, decision, unavailableReason: null };
+    });
+
+    if (claim.request.completed) {
+      return {
+        status: "request_completed",
+        message: `Request '${requestId}' is already completed.`,
+      };
+    }
+    if (claim.unavailableReason) {
+      return {
+        status: "agent_unavailable",
+        message: claim.unavailableReason,
+      };
+    }
+    if (!claim.decision) {
+      return {
+        status: "no_actionable_tasks",
+        message: `No unclaimed actionable tasks for request '${requestId}'.`,
+      };
+    }
+
+    const { reason } = claim.decision.chosen;
+    const task = this.taskRepository.findTaskById(
+      claim.decision.chosen.task.id,
+    )!;
+    return {
+      status: "claimed",
+      task: {
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        type: task.type,
+        status: task.status,
+      },
+      leaseOwner: task.leaseOwner,
+      leaseExpiresAt: task.leaseExpiresAt,
+      strategy: claim.decision.strategy,
+      reason,
+      message: `Task '${task.id}' claimed by '${agentId}' until ${task.leaseExpiresAt}. ${reason}`,
+    };
+  }
+
+  public async heartbeatTask(
+    params: z.infer<typeof HeartbeatTaskSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, taskId, agentId } = params;
+    this._expireLeases();
+    const request = this._getRequestEntryOrThrow(requestId);
+    this._getTaskOrThrow(request, taskId);
+
+    const leaseExpiresAt = this._leaseExpiry(
+      this._getLeaseMinutes(params.leaseMinutes),
+    );
+    if (!this.taskRepository.renewLease(taskId, agentId, leaseExpiresAt)) {
+      throw new InvalidOperationError(
+        `Agent '${agentId}' does not hold an active lease on task '${taskId}'. It may have expired; claim the task again.`,
+      );
+    }
+
+    return {
+      status: "lease_renewed",
+      taskId,
+      leaseOwner: agentId,
+      leaseExpiresAt,
+      message: `Lease on task '${taskId}' renewed for '${agentId}' until ${leaseExpiresAt}.`,
+    };
+  }
+
+  public async releaseTask(
+    params: z.infer<typeof ReleaseTaskSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, taskId, agentId, reason } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    this._getTaskOrThrow(request, taskId);
+
+    const released = withEventNote(reason || `Released by '${agentId}'.`, () =>
+      this.taskRepository.releaseLease(taskId, agentId),
+    );
+    if (!released) {
+      throw new InvalidOperationError(
+        `Agent '${agentId}' does not hold an active lease on task '${taskId}'.`,
+      );
+    }
+
+    return {
+      status: "released",
+      taskId,
+      message: `Task '${taskId}' released by '${agentId}' and returned to pending.`,
+      taskProgress: this._formatTaskProgressTable(requestId),
+    };
+  }
+
+  public async listActionableTasks(
+    params: z.infer<typeof ListActionableTasksSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId } = params;
+    this._expireLeases();
+    const request = this._getRequestEntryOrThrow(requestId);
+    const strategy =
+      params.strategy ||
+      request.schedulingStrategy ||
+      DEFAULT_SCHEDULING_STRATEGY;
+
+    const ready = rankReadyTasks(
+      request.tasks,
+      strategy,
+      undefined,
+      this.taskRepository.findArchivedTasksByRequestId(requestId),
+    );
+    const leased = request.tasks.filter((task) => task.leaseOwner);
+
+    const lines = [`Actionable Tasks (${ready.length}, ${strategy}):`];
+    lines.push("ID | Title | Priority | Type | Reason");
+    lines.push("---|-------|----------|------|-------");
+    for (const { task, reason } of ready) {
+      const title =
+        task.title.length > 30
+          ? task.title.substring(0, 27) + "..."
+          : task.title;
+      lines.push(
+        `${task.id} | ${title} | ${task.priority} | ${task.type || "N/A"} | ${reason}`,
+      );
+    }
+
+    return {
+      status: "actionable_tasks",
+      strategy,
+      count: ready.length,
+      tasks: ready.map(({ task, reason }) => ({
+        id: task.id,
+        title: task.title,
+        priority: task.priority,
+        type: task.type,
+        reason,
+      })),
+      activeLeases: leased.map((task) => ({
+        id: task.id,
+        leaseOwner: task.leaseOwner,
+        leaseExpiresAt: task.leaseExpiresAt,
+      })),
+      message: lines.join("\n"),
+    };
+  }
+
+  public async registerAgent(
+    params: z.infer<typeof RegisterAgentSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { agentId } = params;
+    const existing = this.taskRepository.findAgentById(agentId);
+    const now = new Date().toISOString();
+
+    const agent: Agent = {
+      agentId,
+      name: params.name || existing?.name || agentId,
+      taskTypes: params.taskTypes || existing?.taskTypes || [],
+      maxConcurrency: params.maxConcurrency || existing?.maxConcurrency || 1,
+      status: params.status || existing?.status || AgentStatus.Available,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    this.taskRepository.upsertAgent(agent);
+
+    const types =
+      agent.taskTypes.length > 0 ? agent.taskTypes.join(", ") : "any type";
+    return {
+      status: existing ? "agent_updated" : "agent_registered",
+      agent,
+      message: `Agent '${agentId}' ${existing ? "updated" : "registered"}: ${types}, up to ${agent.maxConcurrency} concurrent task(s), ${agent.status}.`,
+    };
+  }
+
+  public async listAgents(
+    params: z.infer<typeof ListAgentsSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const agents = this.taskRepository.findAllAgents(params.status);
+    const workloads = agents.map(
+      (agent) =>
+        computeAgentWorkloads(
+          this.taskRepository.findTasksByAgent(agent.agentId),
+        ).find((load) => load.agentId === agent.agentId) || {
+          agentId: agent.agentId,
+          active: 0,
+          open: 0,
+          done: 0,
+          failed: 0,
+        },
+    );
+
+    if (agents.length === 0) {
+      return {
+        status: "agents_listed",
+        agents: [],
+        message: "No agents registered.",
+      };
+    }
+
+    const lines = ["Agents:"];
+    lines.push("ID | Name | Task Types | Status | Active | Open | Done");
+    lines.push("---|------|------------|--------|--------|------|-----");
+    agents.forEach((agent, i) => {
+      const types =
+        agent.taskTypes.length > 0 ? agent.taskTypes.join(", ") : "any";
+      const load = workloads[i];
+      lines.push(
+        `${agent.agentId} | ${agent.name} | ${types} | ${agent.status} | ${load.active}/${agent.maxConcurrency} | ${load.open} | ${load.done}`,
+      );
+    });
+
+    return {
+      status: "agents_listed",
+      agents: agents.map((agent, i) => ({ ...agent, workload: workloads[i] })),
+      message: lines.join("\n"),
+    };
+  }
+
+  public async renderTaskGraph(
+    params: z.infer<typeof RenderTaskGraphSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, format } = params;
+    this._getRequestEntryOrThrow(requestId);
+
+    const tasks = this.taskRepository.findTasksByRequestId(requestId);
+    const archivedTasks =
+      this.taskRepository.findArchivedTasksByRequestId(requestId);
+    const options = {
+      highlightCriticalPath: params.highlightCriticalPath,
+      highlightBlocked: params.highlightBlocked,
+      archivedTasks,
+    };
+    const mermaid =
+      format === "dot" ? undefined : renderTaskGraph(tasks, "mermaid", options);
+    const dot =
+      format === "mermaid" ? undefined : renderTaskGraph(tasks, "dot", options);
+    const { criticalPath, blockedTaskIds } = analyzeTaskGraph(
+      tasks,
+      archivedTasks,
+    );
+
+    const lines = [
+      `Task graph for request ${requestId} (${tasks.length} tasks).`,
+    ];
+    if (params.highlightCriticalPath) {
+      lines.push(
+        criticalPath.length > 0
+          ? `Critical path: ${criticalPath.join(" -> ")}`
+          : "Critical path: none (no unfinished dependency chains).",
+      );
+    }
+    if (params.highlightBlocked) {
+      lines.push(
+        `Blocked tasks: ${blockedTaskIds.length > 0 ? blockedTaskIds.join(", ") : "none"}`,
+      );
+    }
+    if (mermaid) lines.push("", "```mermaid", mermaid, "```");
+    if (dot) lines.push("", "```dot", dot, "```");
+
+    return {
+      status: "graph_rendered",
+      ...(mermaid ? { mermaid } : {}),
+      ...(dot ? { dot } : {}),
+      criticalPath,
+      blockedTasks: blockedTaskIds,
+      message: lines.join("\n"),
+    };
+  }
+
+  /**
+   * Registers a listener for committed changes recorded in the event log
+   * @returns Function that removes the listener
+   */
+  public onRepositoryChange(listener: RepositoryChangeListener): () => void {
+    return this.taskRepository.onChange(listener);
+  }
+
+  public async saveTemplate(
+    params: z.infer<typeof SaveTemplateSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const {
+      requestId,
+      name,
+      description,
+      placeholders = {},
+      overwrite,
+    } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    const existing = this.taskRepository.findTemplateByName(name);
+    if (existing && !overwrite) {
+      throw new InvalidOperationError(
+        `Template '${name}' already exists. Pass overwrite: true to replace it.`,
+      );
+    }
+
+    const templatize = (text: string) => insertPlaceholders(text, placeholders);
+    const tasks = captureTemplateTasks([
+      ...request.tasks,
+      ...this.taskRepository.findArchivedTasksByRequestId(requestId),
+    ]).map((task) => mapTaskText(task, templatize));
+    if (tasks.length === 0) {
+      throw new InvalidOperationError(
+        `Request '${requestId}' has no tasks to save as a template.`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const originalRequest = templatize(request.originalRequest);
+    const splitDetails = templatize(request.splitDetails);
+    const template: PlanTemplate = {
+      name,
+      description,
+      originalRequest,
+      splitDetails,
+      tasks,
+      variables: extractVariables([
+        originalRequest,
+        splitDetails,
+        ...tasks.flatMap(taskTexts),
+      ]),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    this.taskRepository.upsertTemplate(template);
+
+    const unused = Object.keys(placeholders).filter(
+      (variable) => !template.variables.includes(variable),
+    );
+    const variables =
+      template.variables.length > 0
+        ? `variables: ${template.variables.join(", ")}`
+        : "no variables";
+    return {
+      status: existing ? "template_updated" : "template_saved",
+      template,
+      message:
+        `Template '${name}' ${existing ? "updated" : "saved"} from request '${requestId}' with ${tasks.length} task(s), ${variables}.` +
+        (unused.length > 0
+          ? ` Placeholder text not found for: ${unused.join(", ")}.`
+          : ""),
+    };
+  }
+
+  public async listTemplates(
+    params: z.infer<typeof ListTemplatesSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const templates = this.taskRepository.findAllTemplates();
+    if (templates.length === 0) {
+      return {
+        status: "templates_listed",
+        templates: [],
+        message: "No templates saved.",
+      };
+    }
+
+    const lines = ["Templates:"];
+    lines.push("Name | Tasks | Variables | Description");
+    lines.push("-----|-------|-----------|------------");
+    for (const template of templates) {
+      lines.push(
+        `${template.name} | ${template.tasks.length} | ${template.variables.join(", ") || "-"} | ${template.description || template.originalRequest}`,
+      );
+    }
+
+    return {
+      status: "templates_listed",
+      templates: templates.map(({ tasks, ...template }) => ({
+        ...template,
+        taskCount: tasks.length,
+      })),
+      message: lines.join("\n"),
+    };
+  }
+
+  public async instantiateTemplate(
+    params: z.infer<typeof InstantiateTemplateSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { name, variables = {} } = params;
+    const template = this.taskRepository.findTemplateByName(name);
+    if (!template) {
+      throw new NotFoundError(`Template '${name}' not found.`);
+    }
+
+    const missing = template.variables.filter(
+      (variable) => !Object.prototype.hasOwnProperty.call(variables, variable),
+    );
+    if (missing.length > 0) {
+      throw new InvalidOperationError(
+        `Template '${name}' needs values for: ${missing.join(", ")}.`,
+      );
+    }
+
+    const fill = (text: string) => fillPlaceholders(text, variables);
+    const now = new Date().toISOString();
+
+    const { requestId, createdTasks } = this.taskRepository.transaction(() => {
+      const requestId = this.taskRepository.createRequest(
+        params.originalRequest || fill(template.originalRequest),
+        fill(template.splitDetails),
+      );
+      // Allocate every ID first so dependencies can point forward
+      const ids = new Map(
+        template.tasks.map((task) => [
+          task.key,
+          this.taskRepository.getNextTaskId(),
+        ]),
+      );
+
+      const createdTasks: Task[] = [];
+      for (const templateTask of template.tasks) {
+        const filled = mapTaskText(templateTask, fill);
+        const parentId = filled.parentKey
+          ? ids.get(filled.parentKey)
+          : undefined;
+        const task: Task = {
+          id: ids.get(filled.key)!,
+          title: filled.title,
+          description: filled.description,
+          status: TaskStatus.Pending,
+          priority: filled.priority,
+          type: filled.type,
+          dependsOn: filled.dependsOn.map((key) => ids.get(key)!),
+          parentId,
+          subtaskIds: [],
+          artifactsGenerated: filled.artifactsGenerated || [],
+          environmentContext: filled.environmentContext,
+          rollupPolicy: filled.rollupPolicy,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        this.taskRepository.createTask(task, requestId);
+        if (parentId) this.taskRepository.addSubtask(parentId, task.id);
+        createdTasks.push(task);
+      }
+      return { requestId, createdTasks };
+    });
+
+    return {
+      status: "template_instantiated",
+      requestId,
+      template: name,
+      tasks: createdTasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        parentId: task.parentId,
+        dependsOn: task.dependsOn,
+      })),
+      message: `Request '${requestId}' created from template '${name}' with ${createdTasks.length} task(s).`,
+    };
+  }
+
+  public async listResources(): Promise<Resource[]> {
+    this._assertInitialized();
+    return listResources(this.taskRepository);
+  }
+
+  public async readResource(uri: string): Promise<ResourceContents> {
+    this._assertInitialized();
+    return readResource(
+      this.taskRepository,
+      uri,
+      COMPLETED_TASK_SUMMARIES_DIR_PATH,
+    );
+  }
+
+  /**
+   * Changes whenever another process commits to the database, e.g. the MCP
+   * server while a watcher polls
+   */
+  public getDataVersion(): number {
+    this._assertInitialized();
+    return this.taskRepository.getDataVersion();
+  }
+
+  /**
+   * Looks up which request an active task belongs to
+   * @throws NotFoundError if the task is not active
+   */
+  public async findRequestIdForTask(taskId: string): Promise<string> {
+    this._assertInitialized();
+    const requestId = this.taskRepository.findRequestIdByTaskId(taskId);
+    if (!requestId) {
+      throw new NotFoundError(`Task '${taskId}' not found.`);
+    }
+    return requestId;
+  }
+
+  public async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+  ): Promise<GetPromptResult> {
+    this._assertInitialized();
+    return getPrompt(this.taskRepository, name, args);
+  }
+
+  public async openTaskDetails(
+    params: z.infer<typeof OpenTaskDetailsSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { taskId } = params;
+    const task = this._getTaskFromAnyRequestOrThrow(taskId);
+    const costs = rollupTaskCosts(this._collectTaskWithDescendants(task)).get(
+      task.id,
+    );
+
+    return {
+      status: "task_details",
+      task,
+      costs,
+      clarifications: this.taskRepository.findQuestionsByTaskId(task.id),
+    };
+  }
+
+  public async listRequests(
+    params: z.infer<typeof ListRequestsSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const requests = this.taskRepository.findAllRequests();
+
+    return {
+      status: "requests_listed",
+      requests: this._formatRequestsList(requests),
+      count: requests.length,
+    };
+  }
+
+  public async addTasksToRequest(
+    params: z.infer<typeof AddTasksToRequestSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, tasks } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+
+    const now = new Date().toISOString();
+    const createdTasks: Task[] = [];
+
+    for (const taskDef of tasks) {
+      const taskId = this.taskRepository.getNextTaskId();
+      const task: Task = {
+        id: taskId,
+        title: taskDef.title,
+        description: taskDef.description,
+        status: TaskStatus.Pending,
+        priority: taskDef.priority || TaskPriority.Medium,
+        type: taskDef.type,
+        dependsOn: taskDef.dependsOn || [],
+        parentId: undefined,
+        subtaskIds: [],
+        artifactsGenerated: taskDef.artifactsGenerated || [],
+        environmentContext: taskDef.environmentContext,
+        assignee: taskDef.assignee,
+        rollupPolicy: taskDef.rollupPolicy,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      this.taskRepository.createTask(task, requestId);
+      createdTasks.push(task);
+    }
+
+    return {
+      status: "tasks_added",
+      tasksCreated: createdTasks.length,
+      message: `${createdTasks.length} task(s) added to request '${requestId}'.${this._refreshBlockedTasks(requestId)}`,
+    };
+  }
+
+  public async addDependency(
+    params: z.infer<typeof AddDependencySchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, taskId, dependsOnTaskId } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    this._getTaskOrThrow(request, taskId);
+    this._getTaskOrThrow(request, dependsOnTaskId);
+
+    const updated = this.taskRepository.addDependency(taskId, dependsOnTaskId);
+    if (updated === 0) {
+      return {
+        status: "dependency_exists",
+        message: "Dependency already exists or task not found.",
+      };
+    }
+
+    return {
+      status: "dependency_added",
+      message: `Task '${taskId}' now depends on '${dependsOnTaskId}'.${this._refreshBlockedTasks(requestId)}`,
+    };
+  }
+
+  public async removeDependency(
+    params: z.infer<typeof RemoveDependencySchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId, taskId, dependsOnTaskId } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    this._getTaskOrThrow(request, taskId);
+
+    const updated = this.taskRepository.removeDependency(
+      taskId,
+      dependsOnTaskId,
+    );
+    if (updated === 0) {
+      return {
+        status: "dependency_not_found",
+        message: "Dependency not found or task not found.",
+      };
+    }
+
+    return {
+      status: "dependency_removed",
+      message: `Dependency from '${taskId}' to '${dependsOnTaskId}' removed.${this._refreshBlockedTasks(requestId)}`,
+    };
+  }
+
+  public async validateDependencies(
+    params: z.infer<typeof ValidateDependenciesSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const { requestId } = params;
+    const request = this._getRequestEntryOrThrow(requestId);
+    const tasks = this.taskRepository.findTasksByRequestId(requestId);
+
+    // Build task map for quick lookup
+    const taskMap = new Map<string, Task>();
+    tasks.forEach((task) => taskMap.set(task.id, task));
+
+    // Check for cycles using DFS
+    function detectCycle(
+      taskId: string,
+      visited: Set<string>,
+      recStack: Set<string>,
+    ): boolean {
+      if (recStack.has(taskId)) return true;
+      if (visited.has(taskId)) return false;
+
+      visited.add(taskId);
+      recStack.add(taskId);
+
+      const task = taskMap.get(taskId);
+      if (task?.dependsOn) {
+        for (const depId of task.dependsOn) {
+          if (detectCycle(depId, visited, recStack)) return true;
+        }
+      }
+
+      recStack.delete(taskId);
+      return false;
+    }
+
+    const visited = new Set<string>();
+    const issues: string[] = [];
 
     for (const task of tasks) {
       if (detectCycle(task.id, visited, new Set())) {
@@ -859,26 +2136,205 @@ export class TaskManagerServer {
       updatedAt: now,
     };
 
-    // Use transaction to merge tasks
-    this.taskRepository.mergeTasks(allTaskIds, mergedTask, requestId);
+    const blockingMessage = this.taskRepository.transaction(() => {
+      this.taskRepository.mergeTasks(allTaskIds, mergedTask, requestId);
 
-    // Update parent if primary task had one
-    if (primaryTask.parentId) {
-      this.taskRepository.removeSubtask(primaryTask.parentId, primaryTaskId);
-      this.taskRepository.addSubtask(primaryTask.parentId, mergedTask.id);
-    }
+      // Update parent if primary task had one
+      if (primaryTask.parentId) {
+        this.taskRepository.removeSubtask(primaryTask.parentId, primaryTaskId);
+        this.taskRepository.addSubtask(primaryTask.parentId, mergedTask.id);
+      }
+
+      // Dependents now wait on the merged task, which starts out pending
+      return this._refreshBlockedTasks(requestId);
+    });
 
     return {
       status: "tasks_merged",
       mergedTaskId: mergedTask.id,
       originalTaskIds: allTaskIds,
-      message: `Tasks [${allTaskIds.join(", ")}] merged into new task '${mergedTask.id}'.`,
+      message: `Tasks [${allTaskIds.join(", ")}] merged into new task '${mergedTask.id}'.${blockingMessage}`,
+    };
+  }
+
+  public async importLegacyJson(
+    params: z.infer<typeof ImportLegacyJsonSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const importer = new LegacyImporter(this.taskRepository);
+    const report = await importer.run(params);
+
+    return {
+      status: report.dryRun ? "import_dry_run" : "imported",
+      report,
+      message: formatImportReport(report),
+    };
+  }
+
+  public async exportRequest(
+    params: z.infer<typeof ExportRequestSchema>,
+  ): Promise<object> {
+    this._assertInitialized();
+    const {
+      requestId,
+      format = "markdown",
+      includeArchived,
+      outputPath,
+    } = params;
+
+    const data = this.taskRepository.findRequestForExport(
+      requestId,
+      includeArchived ?? true,
+    );
+    if (!data) {
+      throw new NotFoundError(`Request '${requestId}' not found.`);
+    }
+
+    const content = renderRequestExport(data, format);
+    const taskCount = data.request.tasks.length + data.archivedTasks.length;
+
+    if (outputPath) {
+      const resolvedPath = path.resolve(outputPath);
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+      await fs.writeFile(resolvedPath, content, "utf-8");
+
+      return {
+        status: "exported",
+        format,
+        outputPath: resolvedPath,
+        message: `Request '${requestId}' (${taskCount} task(s)) exported as ${format} to ${resolvedPath}.`,
+      };
+    }
+
+    return {
+      status: "exported",
+      format,
+      content,
+      message: `Request '${requestId}' (${taskCount} task(s)) exported as ${format}.`,
+    };
+  }
+
+  /**
+   * Re-derives which open tasks of a request are blocked after a change to
+   * statuses or dependencies
+   * @returns Message augmentation describing what changed
+   */
+  private _refreshBlockedTasks(requestId: string): string {
+    const tasks = this.taskRepository.findTasksByRequestId(requestId);
+    const archived =
+      this.taskRepository.findArchivedTasksByRequestId(requestId);
+    const { block, unblock } = computeBlockingChanges(tasks, archived);
+    const known = new Set([...tasks, ...archived].map((task) => task.id));
+
+    for (const { taskId, rootCauseId } of block) {
+      withEventNote(
+        `Blocked: dependency '${rootCauseId}' ${known.has(rootCauseId) ? "failed" : "was deleted"}.`,
+        () => this.taskRepository.updateTaskBlocking(taskId, rootCauseId),
+      );
+    }
+    for (const taskId of unblock) {
+      withEventNote(
+        "Unblocked: root cause completed or dependency removed.",
+        () => this.taskRepository.updateTaskBlocking(taskId, null),
+      );
+    }
+
+    let message = "";
+    if (block.length > 0) {
+      message += ` Blocked ${block.length} dependent task(s): ${block.map((b) => b.taskId).join(", ")}.`;
+    }
+    if (unblock.length > 0) {
+      message += ` Unblocked ${unblock.length} task(s): ${unblock.join(", ")}.`;
+    }
+    return message;
+  }
+
+  private _getBlockedChains(requestId: string): BlockedChain[] {
+    return describeBlockedChains(
+      this.taskRepository.findTasksByRequestId(requestId),
+      this.taskRepository.findArchivedTasksByRequestId(requestId),
+    );
+  }
+
+  /**
+   * Maximum number of retries for a failed task: META_MIND_MAX_RETRIES, then
+   * DEFAULT_MAX_RETRIES
+   */
+  private _getMaxRetries(): number {
+    const fromEnv = parseInt(process.env.META_MIND_MAX_RETRIES || "", 10);
+    return Number.isInteger(fromEnv) && fromEnv >= 0
+      ? fromEnv
+      : DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Works out which tasks an agent may take and whether it can take any now.
+   * Unregistered agents are only held to task assignees.
+   */
+  private _getAgentEligibility(
+    agentId: string,
+    requireRegistered: boolean,
+  ): {
+    isEligible: (task: Task) => boolean;
+    unavailableReason: string | null;
+  } {
+    const agent = this.taskRepository.findAgentById(agentId);
+    if (!agent && requireRegistered) {
+      throw new NotFoundError(
+        `Agent '${agentId}' not found. Register it with register_agent first.`,
+      );
+    }
+
+    const activeCount = this.taskRepository
+      .findTasksByAgent(agentId)
+      .filter((task) => task.status === TaskStatus.Active).length;
+
+    return {
+      isEligible: (task) => canAgentTakeTask(agentId, agent, task),
+      unavailableReason: agent
+        ? agentUnavailableReason(agent, activeCount)
+        : null,
     };
   }
 
-  private async _handleParentCompletion(
+  /**
+   * Lease length in minutes: the explicit override, then
+   * META_MIND_LEASE_MINUTES, then DEFAULT_LEASE_MINUTES
+   */
+  private _getLeaseMinutes(override?: number): number {
+    if (override !== undefined) return override;
+    const fromEnv = parseFloat(process.env.META_MIND_LEASE_MINUTES || "");
+    return fromEnv > 0 ? fromEnv : DEFAULT_LEASE_MINUTES;
+  }
+
+  private _leaseExpiry(leaseMinutes: number): string {
+    return new Date(Date.now() + leaseMinutes * 60_000).toISOString();
+  }
+
+  /**
+   * Returns tasks with expired leases to pending. Read-only tools call this
+   * too, so the expiry is recorded as a separate system operation rather than
+   * as part of the caller's.
+   */
+  private _expireLeases(): string[] {
+    return runWithEventContext(
+      {
+        operationId: randomUUID(),
+        toolName: LEASE_EXPIRY_TOOL_NAME,
+        actor: "system",
+        note: "Lease expired.",
+      },
+      () => this.taskRepository.expireLeases(),
+    );
+  }
+
+  /**
+   * Applies the parent's rollup policy after one of its subtasks settled and
+   * walks up the tree; a settled root tree is auto-archived
+   */
+  private async _handleParentRollup(
     requestId: string,
-    completedTask: Task,
+    settledTask: Task,
   ): Promise<{
     messageAugmentation: string;
     treeCompletionStatus: string;
@@ -886,39 +2342,44 @@ export class TaskManagerServer {
     let messageAugmentation = "";
     let treeCompletionStatus = "none";
 
-    if (!completedTask.parentId) {
+    if (!settledTask.parentId) {
       // Check for auto-archiving of root task
       const archiveMessage = await this._autoArchiveTaskTree(
         requestId,
-        completedTask,
+        settledTask,
       );
       messageAugmentation += archiveMessage;
       if (archiveMessage) treeCompletionStatus = "archived";
       return { messageAugmentation, treeCompletionStatus };
     }
 
-    const parent = this.taskRepository.findTaskById(completedTask.parentId);
-    if (!parent) return { messageAugmentation, treeCompletionStatus };
-
-    // Check if all siblings are done
-    const allSiblingsDone = (parent.subtaskIds || []).every((siblingId) => {
-      const sibling = this.taskRepository.findTaskById(siblingId);
-      return sibling?.status === TaskStatus.Done;
-    });
+    const parent = this.taskRepository.findTaskById(settledTask.parentId);
+    if (
+      !parent ||
+      parent.status === TaskStatus.Done ||
+      parent.status === TaskStatus.Failed
+    ) {
+      return { messageAugmentation, treeCompletionStatus };
+    }
 
-    if (allSiblingsDone) {
-      // Mark parent as done
-      this.taskRepository.updateTaskStatus(
-        parent.id,
-        TaskStatus.Done,
-        "All subtasks completed.",
+    const decision = evaluateRollup(
+      parent.rollupPolicy,
+      this._findSubtasks(parent),
+    );
+    if (decision) {
+      withEventNote(`Rollup: ${decision.reason}`, () =>
+        this.taskRepository.applyRollup(
+          parent.id,
+          decision.status,
+          decision.reason,
+        ),
       );
-      messageAugmentation += ` Parent task '${parent.id}' auto-completed.`;
+      messageAugmentation += ` Parent task '${parent.id}' auto-${decision.status === TaskStatus.Done ? "completed" : "failed"}: ${decision.reason}`;
 
-      // Recursively check parent's parent
-      const grandParentResult = await this._handleParentCompletion(
+      // Recurse with the updated parent, not the snapshot read above
+      const grandParentResult = await this._handleParentRollup(
         requestId,
-        parent,
+        this.taskRepository.findTaskById(parent.id)!,
       );
       messageAugmentation += grandParentResult.messageAugmentation;
       if (grandParentResult.treeCompletionStatus !== "none") {
@@ -933,19 +2394,123 @@ export class TaskManagerServer {
     const tasks = this.taskRepository.findTasksByRequestId(requestId);
     if (tasks.length === 0) return "No tasks found.";
 
+    const costs = rollupTaskCosts(tasks);
     const lines = ["Task Progress:"];
-    lines.push("ID | Title | Status | Priority | Type");
-    lines.push("---|-------|--------|----------|-----");
+    lines.push("ID | Title | Status | Priority | Type | Cost");
+    lines.push("---|-------|--------|----------|------|-----");
 
     for (const task of tasks) {
       const title =
         task.title.length > 30
           ? task.title.substring(0, 27) + "..."
           : task.title;
-      const status = task.status;
+      const status = task.leaseOwner
+        ? `${task.status} (${task.leaseOwner})`
+        : task.blockedBy
+          ? `${task.status} (by ${task.blockedBy})`
+          : task.status;
       const priority = task.priority;
       const type = task.type || "N/A";
-      lines.push(`${task.id} | ${title} | ${status} | ${priority} | ${type}`);
+      const cost = formatCostTotals(costs.get(task.id)!.total);
+      lines.push(
+        `${task.id} | ${title} | ${status} | ${priority} | ${type} | ${cost}`,
+      );
+    }
+
+    const blockedChains = this._getBlockedChains(requestId);
+    if (blockedChains.length > 0) {
+      lines.push("", this._formatBlockedChains(blockedChains));
+    }
+
+    const workloads = computeAgentWorkloads(tasks);
+    if (workloads.length > 0) {
+      lines.push("", this._formatAgentWorkloads(workloads));
+    }
+
+    return lines.join("\n");
+  }
+
+  private _formatBlockedChains(chains: BlockedChain[]): string {
+    const lines = ["Blocked Chains:"];
+    for (const chain of chains) {
+      lines.push(`- ${chain.taskId}: ${formatBlockedChain(chain)}`);
+    }
+    return lines.join("\n");
+  }
+
+  private _formatAgentWorkloads(workloads: AgentWorkload[]): string {
+    const lines = ["Agent Workload:"];
+    lines.push("Agent | Active | Open | Done | Failed");
+    lines.push("------|--------|------|------|-------");
+    for (const load of workloads) {
+      lines.push(
+        `${load.agentId} | ${load.active} | ${load.open} | ${load.done} | ${load.failed}`,
+      );
+    }
+    return lines.join("\n");
+  }
+
+  private _formatSearchResults(results: TaskSearchResult[]): string {
+    const lines = [`Search Results (${results.length}):`];
+    lines.push("ID | Request | Location | Status | Title | Match");
+    lines.push("---|---------|----------|--------|-------|------");
+
+    for (const result of results) {
+      const title =
+        result.title.length > 30
+          ? result.title.substring(0, 27) + "..."
+          : result.title;
+      const snippet = result.snippet.replace(/\s+/g, " ");
+      lines.push(
+        `${result.taskId} | ${result.requestId} | ${result.location} | ${result.status} | ${title} | ${snippet}`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  private _formatTaskHistory(events: TaskEvent[]): string {
+    const formatValue = (value: unknown): string => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return text.length > 40 ? text.substring(0, 37) + "..." : text;
+    };
+
+    const lines = ["Task History:"];
+    lines.push("Time | Task | Event | Tool | Actor | Changes");
+    lines.push("-----|------|-------|------|-------|--------");
+
+    for (const event of events) {
+      const changes =
+        event.eventType === "task_updated" ||
+        event.eventType === "request_updated" ||
+        event.eventType === "question_updated"
+          ? Object.entries(event.changes)
+              .map(
+                ([field, change]) =>
+                  `${field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`,
+              )
+              .join("; ")
+          : "";
+      const note = event.note ? ` (${event.note})` : "";
+      lines.push(
+        `${event.createdAt} | ${event.taskId || event.requestId} | ${event.eventType} | ${event.toolName || "N/A"} | ${event.actor || "N/A"} | ${changes}${note}`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  private _formatOpenQuestions(questions: ClarificationQuestion[]): string {
+    const lines = [`Open Questions (${questions.length}):`];
+    lines.push("ID | Request | Task | Question | Asked");
+    lines.push("---|---------|------|----------|------");
+
+    for (const q of questions) {
+      const task = q.taskTitle ? `${q.taskId} (${q.taskTitle})` : q.taskId;
+      const question = q.question.replace(/\s+/g, " ");
+      lines.push(
+        `${q.questionId} | ${q.requestId} | ${task} | ${question} | ${q.createdAt}`,
+      );
     }
 
     return lines.join("\n");
@@ -955,8 +2520,8 @@ export class TaskManagerServer {
     if (requests.length === 0) return "No requests found.";
 
     const lines = ["Active Requests:"];
-    lines.push("ID | Original Request | Tasks | Completed | Created");
-    lines.push("---|------------------|-------|-----------|--------");
+    lines.push("ID | Original Request | Tasks | Completed | Agents | Created");
+    lines.push("---|------------------|-------|-----------|--------|--------");
 
     for (const req of requests) {
       const originalRequest =
@@ -965,9 +2530,16 @@ export class TaskManagerServer {
           : req.originalRequest;
       const taskCount = req.tasks.length;
       const completed = req.completed ? "Yes" : "No";
+      const agents =
+        computeAgentWorkloads(req.tasks)
+          .map(
+            (load) =>
+              `${load.agentId}: ${load.active} active, ${load.open} open`,
+          )
+          .join("; ") || "-";
       const created = new Date(req.createdAt).toLocaleDateString();
       lines.push(
-        `${req.requestId} | ${originalRequest} | ${taskCount} | ${completed} | ${created}`,
+        `${req.requestId} | ${originalRequest} | ${taskCount} | ${completed} | ${agents} | ${created}`,
       );
     }
 
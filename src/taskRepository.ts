@@ -1,11 +1,35 @@
 import { getDb } from './database.js';
+import { getEventContext, LEASE_EXPIRY_TOOL_NAME } from './eventContext.js';
+import { parseCostEntries, serializeCostEntries } from './costs.js';
 import {
   Task,
+  CostEntry,
+  FeedbackEntry,
   TaskRow,
   RequestEntry,
   RequestRow,
+  RequestExport,
+  ArchivedTask,
   ArchivedTaskRow,
   MetadataRow,
+  TaskSearchFilters,
+  TaskSearchResult,
+  TaskEvent,
+  TaskEventRow,
+  TaskEventType,
+  RepositoryChange,
+  RepositoryChangeListener,
+  FieldChange,
+  UndoneOperation,
+  Agent,
+  AgentRow,
+  AgentStatus,
+  PlanTemplate,
+  PlanTemplateRow,
+  SchedulingStrategy,
+  RollupPolicy,
+  ClarificationQuestion,
+  ClarificationQuestionRow,
   TaskStatus,
   TaskPriority,
   TaskType,
@@ -14,8 +38,19 @@ import {
 } from './interfaces.js';
 import type Database from 'better-sqlite3';
 
+// Columns copied verbatim when tasks move between tasks and archived_tasks
+const TASK_DATA_COLUMNS = [
+  'title', 'description', 'priority', 'type', 'dependsOn', 'failureReason',
+  'suggestedRetryStrategy', 'completedDetails', 'artifactsGenerated',
+  'environmentContext', 'summaryFilePath', 'costData', 'feedbackHistory',
+  'retryCount', 'failureHistory', 'assignee', 'rollupPolicy', 'rollupReason',
+  'createdAt',
+].join(', ');
+
 export class TaskRepository {
   private db: Database.Database;
+  private changeListeners = new Set<RepositoryChangeListener>();
+  private pendingChanges: RepositoryChange[] = [];
 
   constructor() {
     this.db = getDb();
@@ -43,15 +78,45 @@ export class TaskRepository {
       artifactsGenerated: row.artifactsGenerated ? JSON.parse(row.artifactsGenerated) : [],
       environmentContext: row.environmentContext || undefined,
       summaryFilePath: row.summaryFilePath || undefined,
+      retryCount: row.retryCount || 0,
+      failureHistory: row.failureHistory ? JSON.parse(row.failureHistory) : [],
+      costEntries: parseCostEntries(row.costData),
+      feedbackHistory: this.parseFeedbackHistory(row.feedbackHistory),
+      leaseOwner: row.leaseOwner || undefined,
+      leaseExpiresAt: row.leaseExpiresAt || undefined,
+      assignee: row.assignee || undefined,
+      blockedBy: row.blockedBy || undefined,
+      rollupPolicy: row.rollupPolicy as RollupPolicy || undefined,
+      rollupReason: row.rollupReason || undefined,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
   }
 
+  /**
+   * Reads the feedbackHistory column. Rows written before reviews hold '{}'.
+   */
+  private parseFeedbackHistory(feedbackHistory: string | null): FeedbackEntry[] {
+    const parsed = feedbackHistory ? JSON.parse(feedbackHistory) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  }
+
+  /**
+   * Converts an archived_tasks row to an ArchivedTask object
+   */
+  private archivedRowToTask(row: ArchivedTaskRow): ArchivedTask {
+    const { originalRequestId, originalRequestText, archivedAt, ...taskRow } = row;
+    return {
+      ...this.rowToTask({ ...taskRow, requestId: originalRequestId, leaseOwner: null, leaseExpiresAt: null, blockedBy: null }),
+      originalRequestId,
+      archivedAt,
+    };
+  }
+
   /**
    * Converts a Task object to database row format
    */
-  private taskToRow(task: Task, requestId: string): Omit<TaskRow, 'costData' | 'feedbackHistory' | 'retryCount'> {
+  private taskToRow(task: Task, requestId: string): Omit<TaskRow, 'costData' | 'feedbackHistory' | 'retryCount' | 'failureHistory' | 'leaseOwner' | 'leaseExpiresAt' | 'blockedBy' | 'rollupReason'> {
     return {
       taskId: task.id,
       requestId,
@@ -69,6 +134,8 @@ export class TaskRepository {
       artifactsGenerated: task.artifactsGenerated && task.artifactsGenerated.length > 0 ? JSON.stringify(task.artifactsGenerated) : null,
       environmentContext: task.environmentContext || null,
       summaryFilePath: task.summaryFilePath || null,
+      assignee: task.assignee || null,
+      rollupPolicy: task.rollupPolicy || null,
       createdAt: task.createdAt,
       updatedAt: task.updatedAt,
     };
@@ -84,6 +151,7 @@ export class TaskRepository {
       splitDetails: row.splitDetails || '',
       tasks,
       completed: Boolean(row.completed),
+      schedulingStrategy: (row.schedulingStrategy as SchedulingStrategy) || undefined,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
     };
@@ -111,6 +179,23 @@ export class TaskRepository {
     stmt.run(key, value);
   }
 
+  /**
+   * SQLite's data_version, which changes whenever another connection commits
+   */
+  public getDataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  /**
+   * Raises a numeric counter to at least the given value (never lowers it)
+   */
+  public raiseCounter(key: 'lastRequestId' | 'lastTaskId' | 'lastQuestionId', minimum: number): void {
+    const currentId = parseInt(this.getMetadata(key) || '0', 10);
+    if (minimum > currentId) {
+      this.setMetadata(key, minimum.toString());
+    }
+  }
+
   /**
    * Gets the next request ID and increments the counter
    */
@@ -131,6 +216,16 @@ export class TaskRepository {
     return `task-${nextId}`;
   }
 
+  /**
+   * Gets the next clarification question ID and increments the counter
+   */
+  public getNextQuestionId(): string {
+    const currentId = parseInt(this.getMetadata('lastQuestionId') || '0', 10);
+    const nextId = currentId + 1;
+    this.setMetadata('lastQuestionId', nextId.toString());
+    return `q-${nextId}`;
+  }
+
   // ==================== REQUEST METHODS ====================
 
   /**
@@ -146,9 +241,34 @@ export class TaskRepository {
     `);
 
     stmt.run(requestId, originalRequest, splitDetails, now, now);
+    this.recordEvent('request_created', requestId, null, null, this.findRequestRow(requestId));
     return requestId;
   }
 
+  /**
+   * Inserts a request with a caller-supplied ID (used when importing existing data)
+   */
+  public insertRequest(request: Omit<RequestRow, 'schedulingStrategy'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO requests (requestId, originalRequest, splitDetails, completed, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      request.requestId, request.originalRequest, request.splitDetails,
+      request.completed ? 1 : 0, request.createdAt, request.updatedAt
+    );
+    this.recordEvent('request_created', request.requestId, null, null, this.findRequestRow(request.requestId));
+  }
+
+  /**
+   * Checks whether a request ID is already in use
+   */
+  public requestExists(requestId: string): boolean {
+    const stmt = this.db.prepare('SELECT 1 FROM requests WHERE requestId = ?');
+    return stmt.get(requestId) !== undefined;
+  }
+
   /**
    * Finds request by ID
    */
@@ -184,21 +304,43 @@ export class TaskRepository {
       SET completed = ?, updatedAt = datetime('now')
       WHERE requestId = ?
     `);
-    const result = stmt.run(completed ? 1 : 0, requestId);
-    return result.changes;
+    return this.withRequestEvent(requestId, () => stmt.run(completed ? 1 : 0, requestId).changes);
+  }
+
+  /**
+   * Sets the request's scheduling strategy (null restores the server default)
+   */
+  public updateRequestSchedulingStrategy(requestId: string, strategy: SchedulingStrategy | null): number {
+    const stmt = this.db.prepare(`
+      UPDATE requests
+      SET schedulingStrategy = ?, updatedAt = datetime('now')
+      WHERE requestId = ?
+    `);
+    return this.withRequestEvent(requestId, () => stmt.run(strategy, requestId).changes);
   }
 
   /**
    * Deletes a request and all its tasks
    */
   public deleteRequest(requestId: string): number {
-    const stmt = this.db.prepare('DELETE FROM requests WHERE requestId = ?');
-    const result = stmt.run(requestId);
-    return result.changes;
+    return this.transaction(() => {
+      // Delete tasks explicitly so each one is recorded rather than cascaded
+      this.deleteTasksByRequestId(requestId);
+      const stmt = this.db.prepare('DELETE FROM requests WHERE requestId = ?');
+      return this.withRequestEvent(requestId, () => stmt.run(requestId).changes, 'request_deleted');
+    });
   }
 
   // ==================== TASK METHODS ====================
 
+  /**
+   * The costData column for a new task: empty unless the task arrives with
+   * entries, e.g. from a legacy import
+   */
+  private initialCostData(task: Task): string {
+    return task.costEntries && task.costEntries.length > 0 ? serializeCostEntries(task.costEntries) : '{}';
+  }
+
   /**
    * Creates a new task
    */
@@ -209,18 +351,19 @@ export class TaskRepository {
       INSERT INTO tasks (
         taskId, requestId, parentId, title, description, status, priority, type,
         dependsOn, subtaskIds, failureReason, suggestedRetryStrategy, completedDetails,
-        artifactsGenerated, environmentContext, summaryFilePath, costData,
-        feedbackHistory, retryCount, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '{}', '{}', 0, ?, ?)
+        artifactsGenerated, environmentContext, summaryFilePath, assignee, rollupPolicy,
+        costData, feedbackHistory, retryCount, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '{}', ?, ?, ?)
     `);
 
-    stmt.run(
+    this.withTaskEvent(task.id, () => stmt.run(
       taskRow.taskId, taskRow.requestId, taskRow.parentId, taskRow.title, taskRow.description,
       taskRow.status, taskRow.priority, taskRow.type, taskRow.dependsOn, taskRow.subtaskIds,
       taskRow.failureReason, taskRow.suggestedRetryStrategy, taskRow.completedDetails,
       taskRow.artifactsGenerated, taskRow.environmentContext, taskRow.summaryFilePath,
+      taskRow.assignee, taskRow.rollupPolicy, this.initialCostData(task), task.retryCount || 0,
       taskRow.createdAt, taskRow.updatedAt
-    );
+    ), 'task_created');
   }
 
   /**
@@ -232,6 +375,15 @@ export class TaskRepository {
     return row ? this.rowToTask(row) : null;
   }
 
+  /**
+   * Finds the request an active task belongs to
+   */
+  public findRequestIdByTaskId(taskId: string): string | null {
+    const stmt = this.db.prepare('SELECT requestId FROM tasks WHERE taskId = ?');
+    const row = stmt.get(taskId) as { requestId: string } | undefined;
+    return row ? row.requestId : null;
+  }
+
   /**
    * Finds all tasks for a request
    */
@@ -241,6 +393,18 @@ export class TaskRepository {
     return rows.map(row => this.rowToTask(row));
   }
 
+  /**
+   * Checks whether a task ID is in use by an active or archived task
+   */
+  public taskIdExists(taskId: string): boolean {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM tasks WHERE taskId = ?
+      UNION ALL
+      SELECT 1 FROM archived_tasks WHERE taskId = ?
+    `);
+    return stmt.get(taskId, taskId) !== undefined;
+  }
+
   /**
    * Finds tasks by parent ID
    */
@@ -268,22 +432,128 @@ export class TaskRepository {
       SET status = ?, completedDetails = ?, updatedAt = datetime('now')
       WHERE taskId = ?
     `);
-    const result = stmt.run(status, completedDetails || null, taskId);
-    return result.changes;
+    return this.withTaskEvent(taskId, () => stmt.run(status, completedDetails || null, taskId).changes);
   }
 
   /**
-   * Updates task failure information
+   * Updates task failure information and appends it to the failure history
    */
   public updateTaskFailure(taskId: string, failureReason: string, suggestedRetryStrategy?: string): number {
+    const task = this.findTaskById(taskId);
+    if (!task) return 0;
+
+    const failureHistory = [
+      ...(task.failureHistory || []),
+      {
+        attempt: (task.retryCount || 0) + 1,
+        reason: failureReason,
+        suggestedRetryStrategy,
+        failedAt: new Date().toISOString(),
+      },
+    ];
+
     const stmt = this.db.prepare(`
       UPDATE tasks
-      SET status = 'failed', failureReason = ?, suggestedRetryStrategy = ?,
+      SET status = 'failed', failureReason = ?, suggestedRetryStrategy = ?, failureHistory = ?,
           retryCount = retryCount + 1, updatedAt = datetime('now')
       WHERE taskId = ?
     `);
-    const result = stmt.run(failureReason, suggestedRetryStrategy || null, taskId);
-    return result.changes;
+    return this.withTaskEvent(taskId, () =>
+      stmt.run(failureReason, suggestedRetryStrategy || null, JSON.stringify(failureHistory), taskId).changes
+    );
+  }
+
+  /**
+   * Moves a failed task to a new status, clearing the current failure reason
+   * (it stays in the failure history) unless the task is escalated
+   */
+  public resetFailedTask(taskId: string, status: TaskStatus): number {
+    const stmt = this.db.prepare(`
+      UPDATE tasks
+      SET status = ?, failureReason = CASE WHEN ? = 'pending' THEN NULL ELSE failureReason END,
+          updatedAt = datetime('now')
+      WHERE taskId = ? AND status = 'failed'
+    `);
+    return this.withTaskEvent(taskId, () => stmt.run(status, status, taskId).changes);
+  }
+
+  /**
+   * Blocks a pending task on a root cause, or with blockedBy null returns a
+   * blocked task to pending
+   */
+  public updateTaskBlocking(taskId: string, blockedBy: string | null): number {
+    const stmt = blockedBy
+      ? this.db.prepare(`
+          UPDATE tasks SET status = 'blocked', blockedBy = ?, updatedAt = datetime('now')
+          WHERE taskId = ? AND status IN ('pending', 'blocked')
+        `)
+      : this.db.prepare(`
+          UPDATE tasks SET status = 'pending', blockedBy = NULL, updatedAt = datetime('now')
+          WHERE taskId = ? AND status = 'blocked'
+        `);
+    const args = blockedBy ? [blockedBy, taskId] : [taskId];
+    return this.withTaskEvent(taskId, () => stmt.run(...args).changes);
+  }
+
+  /**
+   * Completes or fails a parent from its subtasks' outcome, recording why
+   */
+  public applyRollup(taskId: string, status: TaskStatus.Done | TaskStatus.Failed, reason: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE tasks
+      SET status = ?, rollupReason = ?,
+          completedDetails = CASE WHEN ? = 'done' THEN ? ELSE completedDetails END,
+          failureReason = CASE WHEN ? = 'failed' THEN ? ELSE failureReason END,
+          updatedAt = datetime('now')
+      WHERE taskId = ?
+    `);
+    return this.withTaskEvent(taskId, () =>
+      stmt.run(status, reason, status, reason, status, reason, taskId).changes
+    );
+  }
+
+  /**
+   * Moves a parent that was failed by its rollup policy back to pending
+   */
+  public reopenRolledUpTask(taskId: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE tasks
+      SET status = 'pending', rollupReason = NULL, failureReason = NULL, updatedAt = datetime('now')
+      WHERE taskId = ? AND status = 'failed' AND rollupReason IS NOT NULL
+    `);
+    return this.withTaskEvent(taskId, () => stmt.run(taskId).changes);
+  }
+
+  /**
+   * Appends a cost entry to a task's costData
+   */
+  public appendTaskCost(taskId: string, entry: CostEntry): number {
+    return this.transaction(() => {
+      const row = this.findTaskRow(taskId);
+      if (!row) return 0;
+
+      const entries = [...parseCostEntries(row.costData), entry];
+      const stmt = this.db.prepare(`
+        UPDATE tasks SET costData = ?, updatedAt = datetime('now') WHERE taskId = ?
+      `);
+      return this.withTaskEvent(taskId, () => stmt.run(serializeCostEntries(entries), taskId).changes);
+    });
+  }
+
+  /**
+   * Appends a review entry to a task's feedbackHistory and moves it to the given status
+   */
+  public appendTaskFeedback(taskId: string, entry: FeedbackEntry, status: TaskStatus): number {
+    return this.transaction(() => {
+      const row = this.findTaskRow(taskId);
+      if (!row) return 0;
+
+      const feedbackHistory = [...this.parseFeedbackHistory(row.feedbackHistory), entry];
+      const stmt = this.db.prepare(`
+        UPDATE tasks SET feedbackHistory = ?, status = ?, updatedAt = datetime('now') WHERE taskId = ?
+      `);
+      return this.withTaskEvent(taskId, () => stmt.run(JSON.stringify(feedbackHistory), status, taskId).changes);
+    });
   }
 
   /**
@@ -321,6 +591,22 @@ export class TaskRepository {
       fields.push('environmentContext = ?');
       values.push(updates.environmentContext);
     }
+    if (updates.summaryFilePath !== undefined) {
+      fields.push('summaryFilePath = ?');
+      values.push(updates.summaryFilePath);
+    }
+    if (updates.artifactsGenerated !== undefined) {
+      fields.push('artifactsGenerated = ?');
+      values.push(updates.artifactsGenerated.length > 0 ? JSON.stringify(updates.artifactsGenerated) : null);
+    }
+    if (updates.assignee !== undefined) {
+      fields.push('assignee = ?');
+      values.push(updates.assignee || null);
+    }
+    if (updates.rollupPolicy !== undefined) {
+      fields.push('rollupPolicy = ?');
+      values.push(updates.rollupPolicy);
+    }
 
     if (fields.length === 0) return 0;
 
@@ -328,26 +614,41 @@ export class TaskRepository {
     values.push(taskId);
 
     const stmt = this.db.prepare(`UPDATE tasks SET ${fields.join(', ')} WHERE taskId = ?`);
-    const result = stmt.run(...values);
-    return result.changes;
+    return this.withTaskEvent(taskId, () => stmt.run(...values).changes);
   }
 
   /**
-   * Deletes a task
+   * Deletes a task and its descendants, children first so every deletion is
+   * recorded instead of silently cascading
+   * @returns Number of tasks deleted
    */
   public deleteTask(taskId: string): number {
+    return this.transaction(() => {
+      let deletedCount = 0;
+      for (const child of this.findTasksByParentId(taskId)) {
+        deletedCount += this.deleteTask(child.id);
+      }
+      deletedCount += this.withTaskEvent(taskId, () => this.deleteTaskRow(taskId), 'task_deleted');
+      return deletedCount;
+    });
+  }
+
+  /**
+   * Deletes a single task row without recording an event
+   */
+  private deleteTaskRow(taskId: string): number {
     const stmt = this.db.prepare('DELETE FROM tasks WHERE taskId = ?');
-    const result = stmt.run(taskId);
-    return result.changes;
+    return stmt.run(taskId).changes;
   }
 
   /**
    * Deletes all tasks for a request
    */
   public deleteTasksByRequestId(requestId: string): number {
-    const stmt = this.db.prepare('DELETE FROM tasks WHERE requestId = ?');
-    const result = stmt.run(requestId);
-    return result.changes;
+    return this.transaction(() => {
+      const rootTasks = this.findTasksByRequestId(requestId).filter(t => !t.parentId);
+      return rootTasks.reduce((count, task) => count + this.deleteTask(task.id), 0);
+    });
   }
 
   // ==================== DEPENDENCY METHODS ====================
@@ -367,8 +668,7 @@ export class TaskRepository {
         SET dependsOn = ?, updatedAt = datetime('now')
         WHERE taskId = ?
       `);
-      const result = stmt.run(JSON.stringify(dependsOn), taskId);
-      return result.changes;
+      return this.withTaskEvent(taskId, () => stmt.run(JSON.stringify(dependsOn), taskId).changes);
     }
     return 0;
   }
@@ -389,8 +689,7 @@ export class TaskRepository {
         SET dependsOn = ?, updatedAt = datetime('now')
         WHERE taskId = ?
       `);
-      const result = stmt.run(dependsOn.length > 0 ? JSON.stringify(dependsOn) : null, taskId);
-      return result.changes;
+      return this.withTaskEvent(taskId, () => stmt.run(dependsOn.length > 0 ? JSON.stringify(dependsOn) : null, taskId).changes);
     }
     return 0;
   }
@@ -412,8 +711,7 @@ export class TaskRepository {
         SET subtaskIds = ?, updatedAt = datetime('now')
         WHERE taskId = ?
       `);
-      const result = stmt.run(JSON.stringify(subtaskIds), parentId);
-      return result.changes;
+      return this.withTaskEvent(parentId, () => stmt.run(JSON.stringify(subtaskIds), parentId).changes);
     }
     return 0;
   }
@@ -434,8 +732,7 @@ export class TaskRepository {
         SET subtaskIds = ?, updatedAt = datetime('now')
         WHERE taskId = ?
       `);
-      const result = stmt.run(subtaskIds.length > 0 ? JSON.stringify(subtaskIds) : null, parentId);
-      return result.changes;
+      return this.withTaskEvent(parentId, () => stmt.run(subtaskIds.length > 0 ? JSON.stringify(subtaskIds) : null, parentId).changes);
     }
     return 0;
   }
@@ -448,76 +745,831 @@ export class TaskRepository {
   public archiveTaskTree(taskIds: string[], originalRequestId: string, originalRequestText: string): number {
     const transaction = this.db.transaction(() => {
       const now = new Date().toISOString();
-      let archivedCount = 0;
+      const archiveStmt = this.db.prepare(`
+        INSERT INTO archived_tasks (
+          taskId, originalRequestId, originalRequestText, parentId, status, subtaskIds,
+          updatedAt, archivedAt, ${TASK_DATA_COLUMNS}
+        )
+        SELECT taskId, ?, ?, parentId, status, subtaskIds, updatedAt, ?, ${TASK_DATA_COLUMNS}
+        FROM tasks WHERE taskId = ?
+      `);
 
-      for (const taskId of taskIds) {
-        const task = this.findTaskById(taskId);
-        if (task) {
-          // Insert into archived_tasks
-          const archiveStmt = this.db.prepare(`
-            INSERT INTO archived_tasks (
-              taskId, originalRequestId, originalRequestText, parentId, title, description,
-              status, priority, type, dependsOn, subtaskIds, failureReason, suggestedRetryStrategy,
-              completedDetails, artifactsGenerated, environmentContext, summaryFilePath,
-              costData, feedbackHistory, retryCount, createdAt, updatedAt, archivedAt
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '{}', '{}', 0, ?, ?, ?)
-          `);
-
-          archiveStmt.run(
-            task.id, originalRequestId, originalRequestText, task.parentId, task.title, task.description,
-            task.status, task.priority, task.type,
-            task.dependsOn && task.dependsOn.length > 0 ? JSON.stringify(task.dependsOn) : null,
-            task.subtaskIds && task.subtaskIds.length > 0 ? JSON.stringify(task.subtaskIds) : null,
-            task.failureReason, task.suggestedRetryStrategy, task.completedDetails,
-            task.artifactsGenerated && task.artifactsGenerated.length > 0 ? JSON.stringify(task.artifactsGenerated) : null,
-            task.environmentContext, task.summaryFilePath,
-            task.createdAt, task.updatedAt, now
-          );
+      // Copy every task before deleting anything: deleting a parent cascades to its subtasks
+      const archivedIds = taskIds.filter(taskId => {
+        const before = this.findTaskRow(taskId);
+        if (!before || archiveStmt.run(originalRequestId, originalRequestText, now, taskId).changes === 0) {
+          return false;
+        }
+        this.recordEvent('task_archived', originalRequestId, taskId, before, this.findArchivedTaskRow(taskId));
+        return true;
+      });
+      for (const taskId of [...archivedIds].reverse()) {
+        this.deleteTaskRow(taskId);
+      }
+
+      return archivedIds.length;
+    });
+
+    return this.afterTransaction(() => transaction());
+  }
+
+  /**
+   * Moves archived tasks back into the active tasks table.
+   * Tasks must be ordered parents first; each entry supplies the re-linked hierarchy.
+   */
+  public restoreTaskTree(
+    requestId: string,
+    tasks: Array<{ taskId: string; parentId: string | null; subtaskIds: string[]; status: TaskStatus }>
+  ): number {
+    const transaction = this.db.transaction(() => {
+      const restoreStmt = this.db.prepare(`
+        INSERT INTO tasks (taskId, requestId, parentId, status, subtaskIds, updatedAt, ${TASK_DATA_COLUMNS})
+        SELECT taskId, ?, ?, ?, ?, ?, ${TASK_DATA_COLUMNS}
+        FROM archived_tasks WHERE taskId = ?
+      `);
+      const deleteStmt = this.db.prepare('DELETE FROM archived_tasks WHERE taskId = ?');
+      const now = new Date().toISOString();
+      let restoredCount = 0;
 
-          // Delete from active tasks
-          this.deleteTask(taskId);
-          archivedCount++;
+      for (const task of tasks) {
+        const before = this.findArchivedTaskRow(task.taskId);
+        const result = restoreStmt.run(
+          requestId, task.parentId, task.status,
+          task.subtaskIds.length > 0 ? JSON.stringify(task.subtaskIds) : null,
+          now, task.taskId
+        );
+        if (result.changes > 0) {
+          deleteStmt.run(task.taskId);
+          this.recordEvent('task_restored', requestId, task.taskId, before, this.findTaskRow(task.taskId));
+          restoredCount++;
         }
       }
 
-      return archivedCount;
+      return restoredCount;
     });
 
-    return transaction();
+    return this.afterTransaction(() => transaction());
+  }
+
+  /**
+   * Inserts a single task into archived_tasks
+   */
+  public insertArchivedTask(task: Task, originalRequestId: string, originalRequestText: string, archivedAt: string): void {
+    const archiveStmt = this.db.prepare(`
+      INSERT INTO archived_tasks (
+        taskId, originalRequestId, originalRequestText, parentId, title, description,
+        status, priority, type, dependsOn, subtaskIds, failureReason, suggestedRetryStrategy,
+        completedDetails, artifactsGenerated, environmentContext, summaryFilePath, assignee,
+        rollupPolicy, costData, feedbackHistory, retryCount, createdAt, updatedAt, archivedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, '{}', ?, ?, ?, ?)
+    `);
+
+    const taskRow = this.taskToRow(task, originalRequestId);
+    archiveStmt.run(
+      taskRow.taskId, originalRequestId, originalRequestText, taskRow.parentId, taskRow.title, taskRow.description,
+      taskRow.status, taskRow.priority, taskRow.type, taskRow.dependsOn, taskRow.subtaskIds,
+      taskRow.failureReason, taskRow.suggestedRetryStrategy, taskRow.completedDetails,
+      taskRow.artifactsGenerated, taskRow.environmentContext, taskRow.summaryFilePath,
+      taskRow.assignee, taskRow.rollupPolicy, this.initialCostData(task), task.retryCount || 0,
+      taskRow.createdAt, taskRow.updatedAt, archivedAt
+    );
+    this.recordEvent('task_archived', originalRequestId, task.id, null, this.findArchivedTaskRow(task.id));
+  }
+
+  /**
+   * Finds an archived task by ID
+   */
+  public findArchivedTaskById(taskId: string): ArchivedTask | null {
+    const stmt = this.db.prepare('SELECT * FROM archived_tasks WHERE taskId = ?');
+    const row = stmt.get(taskId) as ArchivedTaskRow | undefined;
+    return row ? this.archivedRowToTask(row) : null;
   }
 
   /**
    * Gets archived tasks by original request ID
    */
-  public findArchivedTasksByRequestId(originalRequestId: string): Task[] {
+  public findArchivedTasksByRequestId(originalRequestId: string): ArchivedTask[] {
     const stmt = this.db.prepare('SELECT * FROM archived_tasks WHERE originalRequestId = ? ORDER BY createdAt ASC');
     const rows = stmt.all(originalRequestId) as ArchivedTaskRow[];
+    return rows.map(row => this.archivedRowToTask(row));
+  }
 
-    return rows.map(row => ({
-      id: row.taskId,
-      title: row.title,
-      description: row.description || '',
-      status: row.status as TaskStatus,
-      priority: row.priority as TaskPriority,
-      type: row.type as TaskType || undefined,
-      dependsOn: row.dependsOn ? JSON.parse(row.dependsOn) : [],
-      parentId: row.parentId || undefined,
-      subtaskIds: row.subtaskIds ? JSON.parse(row.subtaskIds) : [],
-      failureReason: row.failureReason || undefined,
-      suggestedRetryStrategy: row.suggestedRetryStrategy || undefined,
-      completedDetails: row.completedDetails || undefined,
-      artifactsGenerated: row.artifactsGenerated ? JSON.parse(row.artifactsGenerated) : [],
-      environmentContext: row.environmentContext || undefined,
-      summaryFilePath: row.summaryFilePath || undefined,
+  // ==================== EXPORT METHODS ====================
+
+  /**
+   * Loads a request with its active task tree and every task archived from it
+   */
+  public findRequestForExport(requestId: string, includeArchived: boolean = true): RequestExport | null {
+    const request = this.findRequestById(requestId);
+    if (!request) return null;
+
+    return {
+      request,
+      archivedTasks: includeArchived ? this.findArchivedTasksByRequestId(requestId) : [],
+    };
+  }
+
+  // ==================== EVENT LOG METHODS ====================
+
+  private findTaskRow(taskId: string): TaskRow | null {
+    const stmt = this.db.prepare('SELECT * FROM tasks WHERE taskId = ?');
+    return (stmt.get(taskId) as TaskRow | undefined) || null;
+  }
+
+  private findArchivedTaskRow(taskId: string): ArchivedTaskRow | null {
+    const stmt = this.db.prepare('SELECT * FROM archived_tasks WHERE taskId = ?');
+    return (stmt.get(taskId) as ArchivedTaskRow | undefined) || null;
+  }
+
+  private findRequestRow(requestId: string): RequestRow | null {
+    const stmt = this.db.prepare('SELECT * FROM requests WHERE requestId = ?');
+    return (stmt.get(requestId) as RequestRow | undefined) || null;
+  }
+
+  private findRowByKey(table: string, keyColumn: string, key: string): Record<string, unknown> | null {
+    const stmt = this.db.prepare(`SELECT * FROM ${table} WHERE ${keyColumn} = ?`);
+    return (stmt.get(key) as Record<string, unknown> | undefined) || null;
+  }
+
+  /**
+   * Lists the fields that differ between two row snapshots (updatedAt is ignored)
+   */
+  private diffRows(before: object | null, after: object | null): Record<string, FieldChange> {
+    const beforeValues = (before || {}) as Record<string, unknown>;
+    const afterValues = (after || {}) as Record<string, unknown>;
+    const changes: Record<string, FieldChange> = {};
+
+    for (const key of new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)])) {
+      if (key === 'updatedAt') continue;
+      const beforeValue = beforeValues[key] ?? null;
+      const afterValue = afterValues[key] ?? null;
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        changes[key] = { before: beforeValue, after: afterValue };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Appends an entry to the task event log, tagged with the current tool call context
+   */
+  private recordEvent(
+    eventType: TaskEventType,
+    requestId: string | null,
+    taskId: string | null,
+    before: object | null,
+    after: object | null
+  ): void {
+    const changes = this.diffRows(before, after);
+    if (Object.keys(changes).length === 0) return;
+
+    const context = getEventContext();
+    const stmt = this.db.prepare(`
+      INSERT INTO task_events (
+        requestId, taskId, eventType, toolName, actor, note, changes, beforeState, afterState,
+        createdAt, operationId
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      requestId, taskId, eventType, context.toolName || null, context.actor || null, context.note || null,
+      JSON.stringify(changes), before ? JSON.stringify(before) : null, after ? JSON.stringify(after) : null,
+      new Date().toISOString(), context.operationId || null
+    );
+
+    if (this.changeListeners.size > 0) {
+      this.pendingChanges.push({ eventType, requestId, taskId });
+      this.notifyChanges();
+    }
+  }
+
+  /**
+   * Runs a mutation of one task and records it with before/after snapshots
+   */
+  private withTaskEvent<T>(taskId: string, mutate: () => T, eventType: TaskEventType = 'task_updated'): T {
+    return this.transaction(() => {
+      const before = this.findTaskRow(taskId);
+      const result = mutate();
+      const after = this.findTaskRow(taskId);
+      const requestId = (after || before)?.requestId || null;
+      this.recordEvent(eventType, requestId, taskId, before, after);
+      return result;
+    });
+  }
+
+  /**
+   * Runs a mutation of one row of another table and records it with
+   * before/after snapshots against the request and task it belongs to
+   */
+  private withRowEvent<T>(
+    table: string,
+    keyColumn: string,
+    key: string,
+    owner: { requestId: string | null; taskId: string | null },
+    mutate: () => T,
+    eventType: TaskEventType
+  ): T {
+    return this.transaction(() => {
+      const before = this.findRowByKey(table, keyColumn, key);
+      const result = mutate();
+      this.recordEvent(eventType, owner.requestId, owner.taskId, before, this.findRowByKey(table, keyColumn, key));
+      return result;
+    });
+  }
+
+  /**
+   * Runs a mutation of one request row and records it with before/after snapshots
+   */
+  private withRequestEvent<T>(requestId: string, mutate: () => T, eventType: TaskEventType = 'request_updated'): T {
+    return this.transaction(() => {
+      const before = this.findRequestRow(requestId);
+      const result = mutate();
+      this.recordEvent(eventType, requestId, null, before, this.findRequestRow(requestId));
+      return result;
+    });
+  }
+
+  /**
+   * Converts a task_events row to a TaskEvent object
+   */
+  private rowToEvent(row: TaskEventRow): TaskEvent {
+    return {
+      eventId: row.eventId,
+      requestId: row.requestId || undefined,
+      taskId: row.taskId || undefined,
+      eventType: row.eventType as TaskEventType,
+      toolName: row.toolName || undefined,
+      actor: row.actor || undefined,
+      note: row.note || undefined,
+      changes: row.changes ? JSON.parse(row.changes) : {},
+      createdAt: row.createdAt,
+      operationId: row.operationId || undefined,
+      undoneBy: row.undoneBy || undefined,
+    };
+  }
+
+  /**
+   * Gets the event timeline of a task, oldest first
+   */
+  public findEventsByTaskId(taskId: string, limit: number = 200): TaskEvent[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM task_events WHERE taskId = ? ORDER BY eventId DESC LIMIT ?
+      ) ORDER BY eventId ASC
+    `);
+    const rows = stmt.all(taskId, limit) as TaskEventRow[];
+    return rows.map(row => this.rowToEvent(row));
+  }
+
+  /**
+   * Gets the event timeline of a request and all of its tasks, oldest first
+   */
+  public findEventsByRequestId(requestId: string, limit: number = 200): TaskEvent[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM (
+        SELECT * FROM task_events WHERE requestId = ? ORDER BY eventId DESC LIMIT ?
+      ) ORDER BY eventId ASC
+    `);
+    const rows = stmt.all(requestId, limit) as TaskEventRow[];
+    return rows.map(row => this.rowToEvent(row));
+  }
+
+  // ==================== UNDO METHODS ====================
+
+  /**
+   * Inserts a row snapshot as-is into the given table
+   */
+  private insertRowSnapshot(table: string, row: Record<string, unknown>): void {
+    const columns = Object.keys(row);
+    const stmt = this.db.prepare(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+    );
+    stmt.run(...columns.map(column => row[column]));
+  }
+
+  /**
+   * Overwrites an existing row with a snapshot
+   */
+  private replaceRowSnapshot(table: string, keyColumn: string, row: Record<string, unknown>): void {
+    const columns = Object.keys(row).filter(column => column !== keyColumn);
+    const stmt = this.db.prepare(
+      `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ${keyColumn} = ?`
+    );
+    stmt.run(...columns.map(column => row[column]), row[keyColumn]);
+  }
+
+  /**
+   * Applies the inverse of one recorded event, refusing if the row no longer
+   * matches what the event left behind
+   */
+  private revertEvent(row: TaskEventRow): void {
+    const before = row.beforeState ? JSON.parse(row.beforeState) : null;
+    const after = row.afterState ? JSON.parse(row.afterState) : null;
+    const subject = row.taskId ? `task '${row.taskId}'` : `request '${row.requestId}'`;
+    const assertUnchanged = (current: object | null, expected: object | null) => {
+      const matches = current && expected
+        ? Object.keys(this.diffRows(current, expected)).length === 0
+        : current === expected;
+      if (!matches) {
+        throw new InvalidOperationError(
+          `Cannot undo '${row.toolName}': ${subject} was changed after event #${row.eventId}.`
+        );
+      }
+    };
+
+    switch (row.eventType as TaskEventType) {
+      case 'task_created':
+        assertUnchanged(this.findTaskRow(row.taskId!), after);
+        if (this.findTasksByParentId(row.taskId!).length > 0) {
+          throw new InvalidOperationError(
+            `Cannot undo '${row.toolName}': ${subject} has subtasks that were added later.`
+          );
+        }
+        this.withTaskEvent(row.taskId!, () => this.deleteTaskRow(row.taskId!), 'task_deleted');
+        break;
+
+      case 'task_deleted':
+        assertUnchanged(this.findTaskRow(row.taskId!), null);
+        this.withTaskEvent(row.taskId!, () => this.insertRowSnapshot('tasks', before), 'task_created');
+        break;
+
+      case 'task_updated':
+        assertUnchanged(this.findTaskRow(row.taskId!), after);
+        this.withTaskEvent(row.taskId!, () => this.replaceRowSnapshot('tasks', 'taskId', before));
+        break;
+
+      case 'task_archived':
+        assertUnchanged(this.findArchivedTaskRow(row.taskId!), after);
+        assertUnchanged(this.findTaskRow(row.taskId!), null);
+        this.db.prepare('DELETE FROM archived_tasks WHERE taskId = ?').run(row.taskId);
+        if (before) this.insertRowSnapshot('tasks', before);
+        this.recordEvent('task_restored', row.requestId, row.taskId, after, before);
+        break;
+
+      case 'task_restored':
+        assertUnchanged(this.findTaskRow(row.taskId!), after);
+        assertUnchanged(this.findArchivedTaskRow(row.taskId!), null);
+        this.deleteTaskRow(row.taskId!);
+        this.insertRowSnapshot('archived_tasks', before);
+        this.recordEvent('task_archived', row.requestId, row.taskId, after, before);
+        break;
+
+      case 'request_created':
+        assertUnchanged(this.findRequestRow(row.requestId!), after);
+        if (this.findTasksByRequestId(row.requestId!).length > 0) {
+          throw new InvalidOperationError(
+            `Cannot undo '${row.toolName}': ${subject} has tasks that were added later.`
+          );
+        }
+        this.withRequestEvent(
+          row.requestId!,
+          () => this.db.prepare('DELETE FROM requests WHERE requestId = ?').run(row.requestId),
+          'request_deleted'
+        );
+        break;
+
+      case 'request_updated':
+        assertUnchanged(this.findRequestRow(row.requestId!), after);
+        this.withRequestEvent(row.requestId!, () => this.replaceRowSnapshot('requests', 'requestId', before));
+        break;
+
+      case 'request_deleted':
+        assertUnchanged(this.findRequestRow(row.requestId!), null);
+        this.withRequestEvent(row.requestId!, () => this.insertRowSnapshot('requests', before), 'request_created');
+        break;
+
+      case 'question_created':
+      case 'question_updated':
+      case 'question_deleted': {
+        const questionId = (after || before).questionId as string;
+        const owner = { requestId: row.requestId, taskId: row.taskId };
+        assertUnchanged(this.findRowByKey('clarification_questions', 'questionId', questionId), after);
+        if (!before) {
+          this.withRowEvent('clarification_questions', 'questionId', questionId, owner,
+            () => this.db.prepare('DELETE FROM clarification_questions WHERE questionId = ?').run(questionId),
+            'question_deleted');
+        } else if (!after) {
+          this.withRowEvent('clarification_questions', 'questionId', questionId, owner,
+            () => this.insertRowSnapshot('clarification_questions', before), 'question_created');
+        } else {
+          this.withRowEvent('clarification_questions', 'questionId', questionId, owner,
+            () => this.replaceRowSnapshot('clarification_questions', 'questionId', before), 'question_updated');
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Reverts the most recent tool calls that changed a request, newest first.
+   * Lease expiries are system housekeeping and are never undone.
+   * Must run inside an event context whose operationId identifies the undo itself.
+   * Throws (and rolls everything back) if a later change conflicts.
+   */
+  public undoLastOperations(requestId: string, steps: number): UndoneOperation[] {
+    return this.transaction(() => {
+      // Events are reverted newest first, so an archived tree comes back
+      // subtasks before parents: check parentId references at commit instead
+      this.db.pragma('defer_foreign_keys = ON');
+      const undoOperationId = getEventContext().operationId || null;
+      const operations = this.db.prepare(`
+        SELECT operationId, MAX(eventId) AS lastEventId
+        FROM task_events
+        WHERE requestId = ? AND operationId IS NOT NULL AND undoneBy IS NULL
+          AND (toolName IS NULL OR toolName NOT IN ('undo', ?))
+        GROUP BY operationId
+        ORDER BY lastEventId DESC
+        LIMIT ?
+      `).all(requestId, LEASE_EXPIRY_TOOL_NAME, steps) as Array<{ operationId: string }>;
+
+      const undone: UndoneOperation[] = [];
+      for (const { operationId } of operations) {
+        const events = this.db.prepare(
+          'SELECT * FROM task_events WHERE operationId = ? ORDER BY eventId DESC'
+        ).all(operationId) as TaskEventRow[];
+
+        const otherRequest = events.find(event => event.requestId !== requestId);
+        if (otherRequest) {
+          throw new InvalidOperationError(
+            `Cannot undo '${events[0].toolName}': it also changed request '${otherRequest.requestId}'.`
+          );
+        }
+
+        events.forEach(event => this.revertEvent(event));
+        this.db.prepare('UPDATE task_events SET undoneBy = ? WHERE operationId = ?')
+          .run(undoOperationId || 'undo', operationId);
+
+        const first = events[events.length - 1];
+        undone.push({
+          operationId,
+          toolName: first.toolName || undefined,
+          actor: first.actor || undefined,
+          eventCount: events.length,
+          createdAt: first.createdAt,
+        });
+      }
+
+      return undone;
+    });
+  }
+
+  // ==================== SEARCH METHODS ====================
+
+  /**
+   * Turns free text into an FTS5 query: every word becomes a quoted term (AND-ed),
+   * a trailing '*' keeps prefix matching
+   */
+  private toFtsQuery(text: string): string {
+    return text
+      .split(/\s+/)
+      .filter(term => term.replace(/\*+$/, '').length > 0)
+      .map(term => {
+        const isPrefix = term.endsWith('*');
+        const word = term.replace(/\*+$/, '').replace(/"/g, '""');
+        return isPrefix ? `"${word}"*` : `"${word}"`;
+      })
+      .join(' ');
+  }
+
+  /**
+   * Full-text search over active and archived tasks, best matches first
+   */
+  public searchTasks(query: string, filters: TaskSearchFilters = {}): TaskSearchResult[] {
+    const ftsQuery = this.toFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    const scope = filters.scope || 'all';
+    const selects: string[] = [];
+    const params: any[] = [];
+
+    const addSelect = (location: 'active' | 'archived', table: string, ftsTable: string, requestColumn: string) => {
+      const conditions = [`${ftsTable} MATCH ?`];
+      const selectParams: any[] = [ftsQuery];
+
+      if (filters.status) { conditions.push('t.status = ?'); selectParams.push(filters.status); }
+      if (filters.type) { conditions.push('t.type = ?'); selectParams.push(filters.type); }
+      if (filters.priority) { conditions.push('t.priority = ?'); selectParams.push(filters.priority); }
+      if (filters.requestId) { conditions.push(`t.${requestColumn} = ?`); selectParams.push(filters.requestId); }
+      if (filters.createdAfter) { conditions.push('t.createdAt >= ?'); selectParams.push(filters.createdAfter); }
+      if (filters.createdBefore) { conditions.push('t.createdAt <= ?'); selectParams.push(filters.createdBefore); }
+
+      // Title matches weigh most; FTS rows are keyed by the task's searchId
+      selects.push(`
+        SELECT '${location}' AS location, t.taskId, t.${requestColumn} AS requestId, t.title, t.status,
+               t.priority, t.type, t.createdAt, t.updatedAt,
+               bm25(${ftsTable}, 10, 4, 3, 3, 1) AS rank,
+               snippet(${ftsTable}, -1, '**', '**', '…', 16) AS snippet
+        FROM ${ftsTable}
+        JOIN task_search_keys k ON k.searchId = ${ftsTable}.rowid
+        JOIN ${table} t ON t.taskId = k.taskId
+        WHERE ${conditions.join(' AND ')}
+      `);
+      params.push(...selectParams);
+    };
+
+    if (scope !== 'archived') addSelect('active', 'tasks', 'tasks_fts', 'requestId');
+    if (scope !== 'active') addSelect('archived', 'archived_tasks', 'archived_tasks_fts', 'originalRequestId');
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM (${selects.join(' UNION ALL ')})
+      ORDER BY rank ASC
+      LIMIT ?
+    `);
+    const rows = stmt.all(...params, filters.limit || 20) as Array<TaskSearchResult & { type: string | null }>;
+
+    return rows.map(row => ({ ...row, type: row.type as TaskType || undefined }));
+  }
+
+  // ==================== CLARIFICATION METHODS ====================
+
+  private rowToQuestion(row: ClarificationQuestionRow & { taskTitle?: string }): ClarificationQuestion {
+    return {
+      questionId: row.questionId,
+      requestId: row.requestId,
+      taskId: row.taskId,
+      taskTitle: row.taskTitle || undefined,
+      question: row.question,
+      context: row.context || undefined,
+      askedBy: row.askedBy || undefined,
+      answer: row.answer ?? undefined,
+      answeredBy: row.answeredBy || undefined,
+      createdAt: row.createdAt,
+      answeredAt: row.answeredAt || undefined,
+    };
+  }
+
+  /**
+   * Stores questions against a task
+   * @returns The created questions
+   */
+  public createClarificationQuestions(
+    requestId: string,
+    taskId: string,
+    questions: string[],
+    context?: string,
+    askedBy?: string
+  ): ClarificationQuestion[] {
+    const stmt = this.db.prepare(`
+      INSERT INTO clarification_questions (questionId, requestId, taskId, question, context, askedBy, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    return this.transaction(() => {
+      const now = new Date().toISOString();
+      const questionIds = questions.map(question => {
+        const questionId = this.getNextQuestionId();
+        this.withRowEvent('clarification_questions', 'questionId', questionId, { requestId, taskId },
+          () => stmt.run(questionId, requestId, taskId, question, context || null, askedBy || null, now),
+          'question_created');
+        return questionId;
+      });
+      return questionIds.map(questionId => this.findQuestionById(questionId)!);
+    });
+  }
+
+  /**
+   * Finds a clarification question by ID
+   */
+  public findQuestionById(questionId: string): ClarificationQuestion | null {
+    const stmt = this.db.prepare(`
+      SELECT q.*, COALESCE(t.title, a.title) AS taskTitle FROM clarification_questions q
+      LEFT JOIN tasks t ON t.taskId = q.taskId
+      LEFT JOIN archived_tasks a ON a.taskId = q.taskId
+      WHERE q.questionId = ?
+    `);
+    const row = stmt.get(questionId) as (ClarificationQuestionRow & { taskTitle?: string }) | undefined;
+    return row ? this.rowToQuestion(row) : null;
+  }
+
+  /**
+   * Gets all questions raised on a task, oldest first
+   */
+  public findQuestionsByTaskId(taskId: string): ClarificationQuestion[] {
+    const stmt = this.db.prepare(`
+      SELECT q.*, COALESCE(t.title, a.title) AS taskTitle FROM clarification_questions q
+      LEFT JOIN tasks t ON t.taskId = q.taskId
+      LEFT JOIN archived_tasks a ON a.taskId = q.taskId
+      WHERE q.taskId = ? ORDER BY q.createdAt ASC, q.rowid ASC
+    `);
+    const rows = stmt.all(taskId) as (ClarificationQuestionRow & { taskTitle?: string })[];
+    return rows.map(row => this.rowToQuestion(row));
+  }
+
+  /**
+   * Gets unanswered questions on active tasks, for a request or all requests
+   */
+  public findOpenQuestions(requestId?: string): ClarificationQuestion[] {
+    const stmt = this.db.prepare(`
+      SELECT q.*, t.title AS taskTitle FROM clarification_questions q
+      JOIN tasks t ON t.taskId = q.taskId
+      WHERE q.answer IS NULL AND (? IS NULL OR q.requestId = ?)
+      ORDER BY q.requestId ASC, q.createdAt ASC, q.rowid ASC
+    `);
+    const rows = stmt.all(requestId || null, requestId || null) as (ClarificationQuestionRow & { taskTitle?: string })[];
+    return rows.map(row => this.rowToQuestion(row));
+  }
+
+  /**
+   * Records the answer to an open question
+   */
+  public answerQuestion(questionId: string, answer: string, answeredBy?: string): number {
+    const question = this.findQuestionById(questionId);
+    if (!question) return 0;
+
+    const stmt = this.db.prepare(`
+      UPDATE clarification_questions
+      SET answer = ?, answeredBy = ?, answeredAt = ?
+      WHERE questionId = ? AND answer IS NULL
+    `);
+    return this.withRowEvent(
+      'clarification_questions', 'questionId', questionId, { requestId: question.requestId, taskId: question.taskId },
+      () => stmt.run(answer, answeredBy || null, new Date().toISOString(), questionId).changes,
+      'question_updated'
+    );
+  }
+
+  // ==================== LEASE METHODS ====================
+
+  /**
+   * Moves a pending task to active under a lease
+   * @returns 1 if claimed, 0 if the task was no longer pending
+   */
+  public claimTask(taskId: string, owner: string, expiresAt: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE tasks
+      SET status = 'active', leaseOwner = ?, leaseExpiresAt = ?, updatedAt = datetime('now')
+      WHERE taskId = ? AND status = 'pending'
+    `);
+    return this.withTaskEvent(taskId, () => stmt.run(owner, expiresAt, taskId).changes);
+  }
+
+  /**
+   * Extends a lease held by owner
+   * @returns 1 if renewed, 0 if owner no longer holds the lease
+   */
+  public renewLease(taskId: string, owner: string, expiresAt: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE tasks SET leaseExpiresAt = ?
+      WHERE taskId = ? AND leaseOwner = ? AND status = 'active'
+    `);
+    return this.withTaskEvent(taskId, () => stmt.run(expiresAt, taskId, owner).changes);
+  }
+
+  /**
+   * Gives up a lease held by owner and returns the task to pending
+   * @returns 1 if released, 0 if owner no longer holds the lease
+   */
+  public releaseLease(taskId: string, owner: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE tasks
+      SET status = 'pending', leaseOwner = NULL, leaseExpiresAt = NULL, updatedAt = datetime('now')
+      WHERE taskId = ? AND leaseOwner = ? AND status = 'active'
+    `);
+    return this.withTaskEvent(taskId, () => stmt.run(taskId, owner).changes);
+  }
+
+  /**
+   * Returns active tasks whose lease has expired to pending
+   * @returns IDs of the tasks that were released
+   */
+  public expireLeases(now: string = new Date().toISOString()): string[] {
+    const findStmt = this.db.prepare(`
+      SELECT taskId FROM tasks
+      WHERE status = 'active' AND leaseExpiresAt IS NOT NULL AND leaseExpiresAt <= ?
+    `);
+    const releaseStmt = this.db.prepare(`
+      UPDATE tasks
+      SET status = 'pending', leaseOwner = NULL, leaseExpiresAt = NULL, updatedAt = datetime('now')
+      WHERE taskId = ? AND status = 'active' AND leaseExpiresAt <= ?
+    `);
+
+    return this.transaction(() => {
+      const expired = (findStmt.all(now) as { taskId: string }[]).map(row => row.taskId);
+      for (const taskId of expired) {
+        this.withTaskEvent(taskId, () => releaseStmt.run(taskId, now).changes);
+      }
+      return expired;
+    });
+  }
+
+  // ==================== AGENT METHODS ====================
+
+  private rowToAgent(row: AgentRow): Agent {
+    return {
+      agentId: row.agentId,
+      name: row.name,
+      taskTypes: row.taskTypes ? JSON.parse(row.taskTypes) : [],
+      maxConcurrency: row.maxConcurrency,
+      status: row.status as AgentStatus,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Creates or replaces an agent registration
+   */
+  public upsertAgent(agent: Agent): void {
+    const eventType = this.findAgentById(agent.agentId) ? 'agent_updated' : 'agent_created';
+    const stmt = this.db.prepare(`
+      INSERT INTO agents (agentId, name, taskTypes, maxConcurrency, status, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(agentId) DO UPDATE SET
+        name = excluded.name, taskTypes = excluded.taskTypes, maxConcurrency = excluded.maxConcurrency,
+        status = excluded.status, updatedAt = excluded.updatedAt
+    `);
+    this.withRowEvent('agents', 'agentId', agent.agentId, { requestId: null, taskId: null }, () => stmt.run(
+      agent.agentId, agent.name, agent.taskTypes.length > 0 ? JSON.stringify(agent.taskTypes) : null,
+      agent.maxConcurrency, agent.status, agent.createdAt, agent.updatedAt
+    ), eventType);
+  }
+
+  /**
+   * Finds an agent by ID
+   */
+  public findAgentById(agentId: string): Agent | null {
+    const stmt = this.db.prepare('SELECT * FROM agents WHERE agentId = ?');
+    const row = stmt.get(agentId) as AgentRow | undefined;
+    return row ? this.rowToAgent(row) : null;
+  }
+
+  /**
+   * Gets all registered agents, optionally filtered by status
+   */
+  public findAllAgents(status?: AgentStatus): Agent[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM agents WHERE (? IS NULL OR status = ?) ORDER BY agentId ASC
+    `);
+    const rows = stmt.all(status || null, status || null) as AgentRow[];
+    return rows.map(row => this.rowToAgent(row));
+  }
+
+  /**
+   * Gets every task an agent holds or is assigned, across all requests
+   */
+  public findTasksByAgent(agentId: string): Task[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM tasks WHERE leaseOwner = ? OR assignee = ? ORDER BY createdAt ASC
+    `);
+    const rows = stmt.all(agentId, agentId) as TaskRow[];
+    return rows.map(row => this.rowToTask(row));
+  }
+
+  // ==================== TEMPLATE METHODS ====================
+
+  private rowToTemplate(row: PlanTemplateRow): PlanTemplate {
+    return {
+      name: row.name,
+      description: row.description || undefined,
+      originalRequest: row.originalRequest,
+      splitDetails: row.splitDetails,
+      tasks: JSON.parse(row.tasks),
+      variables: JSON.parse(row.variables),
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
-    }));
+    };
+  }
+
+  /**
+   * Creates or replaces a plan template
+   */
+  public upsertTemplate(template: PlanTemplate): void {
+    const eventType = this.findTemplateByName(template.name) ? 'template_updated' : 'template_created';
+    const stmt = this.db.prepare(`
+      INSERT INTO plan_templates (name, description, originalRequest, splitDetails, tasks, variables, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        description = excluded.description, originalRequest = excluded.originalRequest, splitDetails = excluded.splitDetails,
+        tasks = excluded.tasks, variables = excluded.variables, updatedAt = excluded.updatedAt
+    `);
+    this.withRowEvent('plan_templates', 'name', template.name, { requestId: null, taskId: null }, () => stmt.run(
+      template.name, template.description || null, template.originalRequest, template.splitDetails,
+      JSON.stringify(template.tasks), JSON.stringify(template.variables), template.createdAt, template.updatedAt
+    ), eventType);
+  }
+
+  /**
+   * Finds a plan template by name
+   */
+  public findTemplateByName(name: string): PlanTemplate | null {
+    const stmt = this.db.prepare('SELECT * FROM plan_templates WHERE name = ?');
+    const row = stmt.get(name) as PlanTemplateRow | undefined;
+    return row ? this.rowToTemplate(row) : null;
+  }
+
+  /**
+   * Gets all plan templates, ordered by name
+   */
+  public findAllTemplates(): PlanTemplate[] {
+    const stmt = this.db.prepare('SELECT * FROM plan_templates ORDER BY name ASC');
+    const rows = stmt.all() as PlanTemplateRow[];
+    return rows.map(row => this.rowToTemplate(row));
   }
 
   // ==================== TRANSACTIONAL METHODS ====================
 
   /**
-   * Merges multiple tasks into one (transactional)
+   * Merges multiple tasks into one (transactional). Dependencies on the merged
+   * tasks are re-pointed at the new task.
    */
   public mergeTasks(taskIds: string[], mergedTask: Task, requestId: string): void {
     const transaction = this.db.transaction(() => {
@@ -528,9 +1580,16 @@ export class TaskRepository {
 
       // Create new merged task
       this.createTask(mergedTask, requestId);
+
+      for (const task of this.findTasksByRequestId(requestId)) {
+        const dependsOn = task.dependsOn || [];
+        if (task.id === mergedTask.id || !dependsOn.some(id => taskIds.includes(id))) continue;
+        const repointed = dependsOn.map(id => taskIds.includes(id) ? mergedTask.id : id);
+        this.updateTask(task.id, { dependsOn: [...new Set(repointed)] });
+      }
     });
 
-    transaction();
+    this.afterTransaction(() => transaction());
   }
 
   /**
@@ -538,6 +1597,58 @@ export class TaskRepository {
    */
   public transaction<T>(operations: () => T): T {
     const transaction = this.db.transaction(operations);
-    return transaction();
+    return this.afterTransaction(() => transaction());
+  }
+
+  /**
+   * Executes operations in a transaction that takes the write lock up front,
+   * so concurrent processes cannot read the same state and both act on it
+   */
+  public immediateTransaction<T>(operations: () => T): T {
+    const transaction = this.db.transaction(operations);
+    return this.afterTransaction(() => transaction.immediate());
+  }
+
+  /**
+   * Notifies change listeners once the outermost transaction commits, and
+   * drops the queued changes if it rolls back
+   */
+  private afterTransaction<T>(run: () => T): T {
+    try {
+      const result = run();
+      this.notifyChanges();
+      return result;
+    } catch (error) {
+      if (!this.db.inTransaction) this.pendingChanges = [];
+      throw error;
+    }
+  }
+
+  // ==================== CHANGE LISTENER METHODS ====================
+
+  /**
+   * Registers a listener called after every committed change that is recorded
+   * in the event log, including side effects such as auto-completion and auto-archiving
+   * @returns Function that removes the listener
+   */
+  public onChange(listener: RepositoryChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private notifyChanges(): void {
+    if (this.db.inTransaction) return; // flushed after the outer transaction
+
+    const changes = this.pendingChanges;
+    this.pendingChanges = [];
+    for (const change of changes) {
+      for (const listener of this.changeListeners) {
+        try {
+          listener(change);
+        } catch (error) {
+          console.error('Repository change listener failed:', error);
+        }
+      }
+    }
   }
 }
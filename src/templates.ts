@@ -0,0 +1,128 @@
+import { PlanTemplateTask, Task } from "./interfaces.js";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+type TemplateText = Pick<
+  PlanTemplateTask,
+  "title" | "description" | "artifactsGenerated" | "environmentContext"
+>;
+
+/**
+ * Applies a string transform to every free-text field of a template task
+ */
+export const mapTaskText = <T extends TemplateText>(
+  task: T,
+  transform: (text: string) => string,
+): T => ({
+  ...task,
+  title: transform(task.title),
+  description: transform(task.description),
+  artifactsGenerated: task.artifactsGenerated?.map(transform),
+  environmentContext:
+    task.environmentContext === undefined
+      ? undefined
+      : transform(task.environmentContext),
+});
+
+/**
+ * Captures a request's task tree as template tasks keyed t1, t2, ... with
+ * parents listed before their subtasks. Dependencies on tasks outside the
+ * tree are dropped, since a new request could not satisfy them.
+ */
+export const captureTemplateTasks = (tasks: Task[]): PlanTemplateTask[] => {
+  const taskNumber = (task: Task) =>
+    parseInt(task.id.replace(/^\D+/, ""), 10) || 0;
+  const sorted = [...tasks].sort((a, b) => taskNumber(a) - taskNumber(b));
+  const ids = new Set(sorted.map((task) => task.id));
+
+  const ordered: Task[] = [];
+  const visit = (parentId: string | undefined) => {
+    for (const task of sorted) {
+      const parent =
+        task.parentId && ids.has(task.parentId) ? task.parentId : undefined;
+      if (parent !== parentId) continue;
+      ordered.push(task);
+      visit(task.id);
+    }
+  };
+  visit(undefined);
+
+  const keys = new Map(ordered.map((task, i) => [task.id, `t${i + 1}`]));
+  return ordered.map((task) => ({
+    key: keys.get(task.id)!,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    type: task.type,
+    dependsOn: (task.dependsOn || [])
+      .filter((id) => keys.has(id))
+      .map((id) => keys.get(id)!),
+    parentKey: task.parentId ? keys.get(task.parentId) : undefined,
+    artifactsGenerated: task.artifactsGenerated?.length
+      ? task.artifactsGenerated
+      : undefined,
+    environmentContext: task.environmentContext,
+    rollupPolicy: task.rollupPolicy,
+  }));
+};
+
+/**
+ * Turns literal text into {{name}} placeholders in a single pass, trying the
+ * longest literal first so a value containing another value is replaced whole
+ */
+export const insertPlaceholders = (
+  text: string,
+  placeholders: Record<string, string>,
+): string => {
+  const names = new Map(
+    Object.entries(placeholders)
+      .filter(([, literal]) => literal.length > 0)
+      .map(([name, literal]) => [literal, name]),
+  );
+  if (names.size === 0) return text;
+
+  const pattern = new RegExp(
+    [...names.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("|"),
+    "g",
+  );
+  return text.replace(pattern, (literal) => `{{${names.get(literal)}}}`);
+};
+
+/**
+ * Names of the {{placeholders}} used in the given texts, in order of first use
+ */
+export const extractVariables = (texts: string[]): string[] => {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+};
+
+/**
+ * Replaces {{placeholders}} with their values. Unknown names are left as-is.
+ */
+export const fillPlaceholders = (
+  text: string,
+  values: Record<string, string>,
+): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : placeholder,
+  );
+
+/**
+ * Every free-text string of a template task, for variable extraction
+ */
+export const taskTexts = (task: TemplateText): string[] => [
+  task.title,
+  task.description,
+  ...(task.artifactsGenerated || []),
+  ...(task.environmentContext ? [task.environmentContext] : []),
+];
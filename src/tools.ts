@@ -1,4 +1,5 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ZodTypeAny } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import {
   RequestPlanningSchema,
@@ -19,121 +20,341 @@ import {
   LogTaskCompletionSummarySchema,
   SplitTaskSchema,
   MergeTasksSchema,
+  ImportLegacyJsonSchema,
+  ExportRequestSchema,
+  RestoreTaskTreeSchema,
+  SearchTasksSchema,
+  GetTaskHistorySchema,
+  UndoSchema,
+  RetryTaskSchema,
+  RecordTaskCostSchema,
+  GetRequestCostReportSchema,
+  SubmitTaskForReviewSchema,
+  AddTaskFeedbackSchema,
+  RequestClarificationSchema,
+  AnswerClarificationSchema,
+  ListOpenQuestionsSchema,
+  SetSchedulingStrategySchema,
+  ClaimNextTaskSchema,
+  HeartbeatTaskSchema,
+  ReleaseTaskSchema,
+  ListActionableTasksSchema,
+  RegisterAgentSchema,
+  ListAgentsSchema,
+  RenderTaskGraphSchema,
+  SaveTemplateSchema,
+  ListTemplatesSchema,
+  InstantiateTemplateSchema,
 } from "./schemas.js";
 
+/**
+ * A tool's JSON input schema, plus the optional actor every tool call accepts
+ * to attribute its changes in the audit trail
+ */
+const toolInputSchema = (schema: ZodTypeAny): Tool["inputSchema"] => {
+  const jsonSchema = zodToJsonSchema(schema) as Tool["inputSchema"];
+  return {
+    ...jsonSchema,
+    properties: {
+      ...jsonSchema.properties,
+      actor: {
+        type: "string",
+        description:
+          "Agent or user to record in the audit trail (defaults to META_MIND_ACTOR)",
+      },
+    },
+  };
+};
+
 export const REQUEST_PLANNING_TOOL: Tool = {
   name: "request_planning",
   description: "Register a new user request and plan its tasks.",
-  inputSchema: zodToJsonSchema(RequestPlanningSchema) as any,
+  inputSchema: toolInputSchema(RequestPlanningSchema),
 };
 
 export const GET_NEXT_TASK_TOOL: Tool = {
   name: "get_next_task",
-  description: "Get the next actionable task for a request.",
-  inputSchema: zodToJsonSchema(GetNextTaskSchema) as any,
+  description:
+    "Get the next actionable task for a request, chosen by the scheduling strategy (per call, else the request's strategy, else 'priority'): 'priority' (highest priority, then oldest), 'critical-path' (most downstream dependents), 'fifo' (oldest first) or 'depth-first' (finish the current subtree first). Pass agentId to only consider tasks matching that registered agent's task types and assignee. The response explains the choice and lists runner-up candidates. When no pending task is ready, a failed task still within the retry limit is returned with status 'retryable_task'. Tasks blocked by a failed or deleted dependency are listed as chains back to their root cause.",
+  inputSchema: toolInputSchema(GetNextTaskSchema),
 };
 
 export const MARK_TASK_DONE_TOOL: Tool = {
   name: "mark_task_done",
   description: "Mark a task as done. Can include artifacts generated.",
-  inputSchema: zodToJsonSchema(MarkTaskDoneSchema) as any,
+  inputSchema: toolInputSchema(MarkTaskDoneSchema),
 };
 
 export const MARK_TASK_FAILED_TOOL: Tool = {
   name: "mark_task_failed",
   description: "Mark a task as failed. Can include a suggested retry strategy.",
-  inputSchema: zodToJsonSchema(MarkTaskFailedSchema) as any,
+  inputSchema: toolInputSchema(MarkTaskFailedSchema),
 };
 
 export const OPEN_TASK_DETAILS_TOOL: Tool = {
   name: "open_task_details",
   description: "Get details of a specific task.",
-  inputSchema: zodToJsonSchema(OpenTaskDetailsSchema) as any,
+  inputSchema: toolInputSchema(OpenTaskDetailsSchema),
 };
 
 export const LIST_REQUESTS_TOOL: Tool = {
   name: "list_requests",
   description: "List all active requests.",
-  inputSchema: zodToJsonSchema(ListRequestsSchema) as any,
+  inputSchema: toolInputSchema(ListRequestsSchema),
 };
 
 export const ADD_TASKS_TO_REQUEST_TOOL: Tool = {
   name: "add_tasks_to_request",
   description: "Add new tasks to an existing request.",
-  inputSchema: zodToJsonSchema(AddTasksToRequestSchema) as any,
+  inputSchema: toolInputSchema(AddTasksToRequestSchema),
 };
 
 export const UPDATE_TASK_TOOL: Tool = {
   name: "update_task",
   description:
     "Update an existing task's details (title, desc, priority, type, status, artifacts, envContext).",
-  inputSchema: zodToJsonSchema(UpdateTaskSchema) as any,
+  inputSchema: toolInputSchema(UpdateTaskSchema),
 };
 
 export const ADD_DEPENDENCY_TOOL: Tool = {
   name: "add_dependency",
   description: "Add a dependency between two tasks.",
-  inputSchema: zodToJsonSchema(AddDependencySchema) as any,
+  inputSchema: toolInputSchema(AddDependencySchema),
 };
 
 export const REMOVE_DEPENDENCY_TOOL: Tool = {
   name: "remove_dependency",
   description: "Remove a dependency between two tasks.",
-  inputSchema: zodToJsonSchema(RemoveDependencySchema) as any,
+  inputSchema: toolInputSchema(RemoveDependencySchema),
 };
 
 export const VALIDATE_DEPENDENCIES_TOOL: Tool = {
   name: "validate_dependencies",
   description: "Validate task dependencies within a request.",
-  inputSchema: zodToJsonSchema(ValidateDependenciesSchema) as any,
+  inputSchema: toolInputSchema(ValidateDependenciesSchema),
 };
 
 export const DELETE_TASK_TOOL: Tool = {
   name: "delete_task",
   description:
     "Permanently delete a task and its descendants from active tasks.",
-  inputSchema: zodToJsonSchema(DeleteTaskSchema) as any,
+  inputSchema: toolInputSchema(DeleteTaskSchema),
 };
 
 export const ADD_SUBTASK_TOOL: Tool = {
   name: "add_subtask",
   description: "Add a subtask to a parent task.",
-  inputSchema: zodToJsonSchema(AddSubtaskSchema) as any,
+  inputSchema: toolInputSchema(AddSubtaskSchema),
 };
 
 export const REMOVE_SUBTASK_TOOL: Tool = {
   name: "remove_subtask",
   description:
     "Permanently delete a subtask and its descendants from active tasks.",
-  inputSchema: zodToJsonSchema(RemoveSubtaskSchema) as any,
+  inputSchema: toolInputSchema(RemoveSubtaskSchema),
 };
 
 export const ARCHIVE_TASK_TREE_TOOL: Tool = {
   name: "archive_task_tree",
   description:
-    "Archives a fully completed task tree (root task and all descendants must be 'done') to completed_tasks.json.",
-  inputSchema: zodToJsonSchema(ArchiveTaskTreeSchema) as any,
+    "Archives a settled task tree to the archived_tasks table. The root must be done, every descendant done or failed, and each parent's rollup policy must accept its subtasks (e.g. a best-effort parent may keep failed subtasks).",
+  inputSchema: toolInputSchema(ArchiveTaskTreeSchema),
 };
 
 export const LOG_TASK_COMPLETION_SUMMARY_TOOL: Tool = {
   name: "log_task_completion_summary",
   description:
     "Logs a completion summary for a task with relevant details and achievements.",
-  inputSchema: zodToJsonSchema(LogTaskCompletionSummarySchema) as any,
+  inputSchema: toolInputSchema(LogTaskCompletionSummarySchema),
 };
 
 export const SPLIT_TASK_TOOL: Tool = {
   name: "split_task",
   description:
     "Splits a task into multiple new subtasks. The original task becomes a container.",
-  inputSchema: zodToJsonSchema(SplitTaskSchema) as any,
+  inputSchema: toolInputSchema(SplitTaskSchema),
 };
 
 export const MERGE_TASKS_TOOL: Tool = {
   name: "merge_tasks",
   description:
     "Merges multiple tasks into a primary task, consolidating details and dependencies.",
-  inputSchema: zodToJsonSchema(MergeTasksSchema) as any,
+  inputSchema: toolInputSchema(MergeTasksSchema),
+};
+
+export const IMPORT_LEGACY_JSON_TOOL: Tool = {
+  name: "import_legacy_json",
+  description:
+    "Imports pre-0.3.0 tasks.json / completed_tasks.json files into the database, keeping original IDs. Use dryRun to report conflicts without writing.",
+  inputSchema: toolInputSchema(ImportLegacyJsonSchema),
+};
+
+export const EXPORT_REQUEST_TOOL: Tool = {
+  name: "export_request",
+  description:
+    "Exports a request and its task tree, including archived tasks, as a Markdown report, lossless JSON or flat CSV. Optionally writes the export to outputPath.",
+  inputSchema: toolInputSchema(ExportRequestSchema),
+};
+
+export const RESTORE_TASK_TREE_TOOL: Tool = {
+  name: "restore_task_tree",
+  description:
+    "Restores an archived task tree back into the active tasks of its request, re-linking parent/subtask references. Optionally resets statuses to 'pending' and reopens the request (defaults to reopening when statuses are reset).",
+  inputSchema: toolInputSchema(RestoreTaskTreeSchema),
+};
+
+export const SEARCH_TASKS_TOOL: Tool = {
+  name: "search_tasks",
+  description:
+    "Full-text search over titles, descriptions, completion details, failure reasons and environment context of active and archived tasks. Returns ranked results with highlighted snippets; filter by status, type, priority, request and creation date range.",
+  inputSchema: toolInputSchema(SearchTasksSchema),
+};
+
+export const GET_TASK_HISTORY_TOOL: Tool = {
+  name: "get_task_history",
+  description:
+    "Returns the audit trail for a task or a whole request: every recorded mutation with its field changes, originating tool, actor and timestamp.",
+  inputSchema: toolInputSchema(GetTaskHistorySchema),
+};
+
+export const UNDO_TOOL: Tool = {
+  name: "undo",
+  description:
+    "Reverts the most recent mutating tool calls for a request (default 1, newest first) using the recorded audit trail: recreates deleted subtrees, un-merges, un-splits and restores previous field values. Refuses if a later change conflicts. Summary files on disk are not removed.",
+  inputSchema: toolInputSchema(UndoSchema),
+};
+
+export const RETRY_TASK_TOOL: Tool = {
+  name: "retry_task",
+  description:
+    "Moves a failed task back to pending so it can be attempted again. Every failure reason and retry strategy is kept in the task's failureHistory. Once the task has failed more than META_MIND_MAX_RETRIES times (default 3) it is escalated to requires-clarification with a clarification question instead.",
+  inputSchema: toolInputSchema(RetryTaskSchema),
+};
+
+export const RECORD_TASK_COST_TOOL: Tool = {
+  name: "record_task_cost",
+  description:
+    "Records tokens, tool calls and wall-clock minutes spent on a task. Entries accumulate per task and roll up through subtasks to parents and the request.",
+  inputSchema: toolInputSchema(RecordTaskCostSchema),
+};
+
+export const GET_REQUEST_COST_REPORT_TOOL: Tool = {
+  name: "get_request_cost_report",
+  description:
+    "Reports recorded costs for a request: request totals plus own and rolled-up totals per task, including archived tasks by default.",
+  inputSchema: toolInputSchema(GetRequestCostReportSchema),
+};
+
+export const SUBMIT_TASK_FOR_REVIEW_TOOL: Tool = {
+  name: "submit_task_for_review",
+  description:
+    "Submits a pending or active task for review, moving it to in-review. The completion details and artifacts are kept with the submission and used when the task is approved.",
+  inputSchema: toolInputSchema(SubmitTaskForReviewSchema),
+};
+
+export const ADD_TASK_FEEDBACK_TOOL: Tool = {
+  name: "add_task_feedback",
+  description:
+    "Adds reviewer feedback to a task in review. 'request-changes' sends the task back to active with the comment in its feedbackHistory; 'approve' marks it done through the normal completion path, including parent auto-completion.",
+  inputSchema: toolInputSchema(AddTaskFeedbackSchema),
+};
+
+export const REQUEST_CLARIFICATION_TOOL: Tool = {
+  name: "request_clarification",
+  description:
+    "Raises one or more clarification questions on a task and moves it to requires-clarification until every question is answered.",
+  inputSchema: toolInputSchema(RequestClarificationSchema),
+};
+
+export const ANSWER_CLARIFICATION_TOOL: Tool = {
+  name: "answer_clarification",
+  description:
+    "Answers an open clarification question. When the last open question on a task is answered, the task moves back to pending.",
+  inputSchema: toolInputSchema(AnswerClarificationSchema),
+};
+
+export const LIST_OPEN_QUESTIONS_TOOL: Tool = {
+  name: "list_open_questions",
+  description:
+    "Lists unanswered clarification questions blocking tasks in a request, or across all requests when no requestId is given.",
+  inputSchema: toolInputSchema(ListOpenQuestionsSchema),
+};
+
+export const SET_SCHEDULING_STRATEGY_TOOL: Tool = {
+  name: "set_scheduling_strategy",
+  description:
+    "Sets how get_next_task picks tasks for a request: 'priority', 'critical-path', 'fifo' or 'depth-first'. Use 'default' to go back to the server default ('priority').",
+  inputSchema: toolInputSchema(SetSchedulingStrategySchema),
+};
+
+export const CLAIM_NEXT_TASK_TOOL: Tool = {
+  name: "claim_next_task",
+  description:
+    "Atomically picks the next ready task (same strategies as get_next_task) and moves it to active under a lease owned by agentId, so parallel agents never receive the same task. The lease lasts leaseMinutes (default META_MIND_LEASE_MINUTES or 15); renew it with heartbeat_task. Expired leases return the task to pending.",
+  inputSchema: toolInputSchema(ClaimNextTaskSchema),
+};
+
+export const HEARTBEAT_TASK_TOOL: Tool = {
+  name: "heartbeat_task",
+  description:
+    "Extends the lease an agent holds on a claimed task. Fails if the lease has already expired or belongs to another agent.",
+  inputSchema: toolInputSchema(HeartbeatTaskSchema),
+};
+
+export const RELEASE_TASK_TOOL: Tool = {
+  name: "release_task",
+  description:
+    "Gives up an agent's lease on a claimed task and returns it to pending so another agent can claim it.",
+  inputSchema: toolInputSchema(ReleaseTaskSchema),
+};
+
+export const LIST_ACTIONABLE_TASKS_TOOL: Tool = {
+  name: "list_actionable_tasks",
+  description:
+    "Lists every task in a request that is ready to start (pending with dependencies met), ranked by scheduling strategy, plus the current leases. Use it to fan work out across agents.",
+  inputSchema: toolInputSchema(ListActionableTasksSchema),
+};
+
+export const REGISTER_AGENT_TOOL: Tool = {
+  name: "register_agent",
+  description:
+    "Registers an agent or updates its registration: display name, supported task types (empty means any), maximum concurrent active tasks and status (available, paused, offline). get_next_task and claim_next_task only route matching tasks to it.",
+  inputSchema: toolInputSchema(RegisterAgentSchema),
+};
+
+export const LIST_AGENTS_TOOL: Tool = {
+  name: "list_agents",
+  description:
+    "Lists registered agents with their capabilities and current workload across all requests.",
+  inputSchema: toolInputSchema(ListAgentsSchema),
+};
+
+export const RENDER_TASK_GRAPH_TOOL: Tool = {
+  name: "render_task_graph",
+  description:
+    "Renders a request's tasks as a Mermaid flowchart and/or Graphviz DOT text. Parents are drawn as clusters around their subtasks, dependencies as edges, and nodes are coloured by status with a border weight by priority. Can highlight the critical path (longest chain of unfinished dependencies) and blocked tasks.",
+  inputSchema: toolInputSchema(RenderTaskGraphSchema),
+};
+
+export const SAVE_TEMPLATE_TOOL: Tool = {
+  name: "save_template",
+  description:
+    "Saves a request's task tree (active and archived tasks with subtasks, dependencies, types and priorities) as a reusable plan template. 'placeholders' maps variable names to literal text that becomes {{name}}; text already written as {{name}} is kept. Refuses to replace an existing template unless 'overwrite' is true.",
+  inputSchema: toolInputSchema(SaveTemplateSchema),
+};
+
+export const LIST_TEMPLATES_TOOL: Tool = {
+  name: "list_templates",
+  description:
+    "Lists saved plan templates with their task counts and the variables each one needs.",
+  inputSchema: toolInputSchema(ListTemplatesSchema),
+};
+
+export const INSTANTIATE_TEMPLATE_TOOL: Tool = {
+  name: "instantiate_template",
+  description:
+    "Creates a new request from a plan template, filling its {{placeholders}} from 'variables'. Every task gets a fresh ID, with subtask links and dependencies remapped to the new IDs. Fails without creating anything if a variable is missing.",
+  inputSchema: toolInputSchema(InstantiateTemplateSchema),
 };
 
 // Export all tools as an array for easy registration
@@ -156,4 +377,29 @@ export const ALL_TOOLS: Tool[] = [
   LOG_TASK_COMPLETION_SUMMARY_TOOL,
   SPLIT_TASK_TOOL,
   MERGE_TASKS_TOOL,
+  IMPORT_LEGACY_JSON_TOOL,
+  EXPORT_REQUEST_TOOL,
+  RESTORE_TASK_TREE_TOOL,
+  SEARCH_TASKS_TOOL,
+  GET_TASK_HISTORY_TOOL,
+  UNDO_TOOL,
+  RETRY_TASK_TOOL,
+  RECORD_TASK_COST_TOOL,
+  GET_REQUEST_COST_REPORT_TOOL,
+  SUBMIT_TASK_FOR_REVIEW_TOOL,
+  ADD_TASK_FEEDBACK_TOOL,
+  REQUEST_CLARIFICATION_TOOL,
+  ANSWER_CLARIFICATION_TOOL,
+  LIST_OPEN_QUESTIONS_TOOL,
+  SET_SCHEDULING_STRATEGY_TOOL,
+  CLAIM_NEXT_TASK_TOOL,
+  HEARTBEAT_TASK_TOOL,
+  RELEASE_TASK_TOOL,
+  LIST_ACTIONABLE_TASKS_TOOL,
+  REGISTER_AGENT_TOOL,
+  LIST_AGENTS_TOOL,
+  RENDER_TASK_GRAPH_TOOL,
+  SAVE_TEMPLATE_TOOL,
+  LIST_TEMPLATES_TOOL,
+  INSTANTIATE_TEMPLATE_TOOL,
 ];
@@ -0,0 +1,282 @@
+import chalk from "chalk";
+import { TaskManagerServer } from "./taskManagerServer.js";
+import { Task, TaskEvent, TaskStatus } from "./interfaces.js";
+import {
+  ArchivedTreeNode,
+  REQUESTS_RESOURCE_URI,
+  RequestResource,
+  RequestSummary,
+  archiveResourceUri,
+  flattenArchivedTrees,
+  requestResourceUri,
+} from "./resources.js";
+import { describeBlockedChains, formatBlockedChain } from "./blocking.js";
+
+export interface WatchOptions {
+  requestId?: string; // unset = every open request
+  intervalMs: number;
+  eventCount: number;
+  once: boolean;
+}
+
+// Archived tasks still settle the dependencies of active ones
+type WatchedRequest = RequestResource & { archivedTasks: Task[] };
+
+interface WatchSnapshot {
+  requests: WatchedRequest[];
+  events: TaskEvent[];
+}
+
+const STATUS_GLYPHS: Record<TaskStatus, string> = {
+  [TaskStatus.Pending]: chalk.gray("○"),
+  [TaskStatus.Active]: chalk.blue("◐"),
+  [TaskStatus.Done]: chalk.green("✔"),
+  [TaskStatus.Failed]: chalk.red("✖"),
+  [TaskStatus.RequiresClarification]: chalk.yellow("?"),
+  [TaskStatus.InReview]: chalk.magenta("◎"),
+  [TaskStatus.Blocked]: chalk.hex("#ea580c")("⊘"),
+};
+
+// Move home, draw, clear each line's tail and everything below: no flicker
+const CURSOR_HOME = "\x1b[H";
+const CLEAR_LINE_END = "\x1b[K";
+const CLEAR_BELOW = "\x1b[J";
+
+/**
+ * Parses ISO timestamps and SQLite datetime('now') values, which are UTC
+ * without a zone suffix
+ */
+const parseTimestamp = (timestamp: string): number =>
+  Date.parse(
+    /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(timestamp)
+      ? `${timestamp.replace(" ", "T")}Z`
+      : timestamp,
+  );
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60)
+    return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+};
+
+const formatClock = (timestamp: number): string =>
+  new Date(timestamp).toTimeString().substring(0, 8);
+
+const loadSnapshot = async (
+  taskManagerServer: TaskManagerServer,
+  requestId?: string,
+): Promise<WatchSnapshot> => {
+  const readJson = async <T>(uri: string): Promise<T> =>
+    JSON.parse((await taskManagerServer.readResource(uri)).text);
+
+  const requestIds = requestId
+    ? [requestId]
+    : (await readJson<RequestSummary[]>(REQUESTS_RESOURCE_URI))
+        .filter((request) => !request.completed)
+        .map((request) => request.requestId);
+
+  const requests: WatchedRequest[] = [];
+  const events: TaskEvent[] = [];
+  for (const id of requestIds) {
+    requests.push({
+      ...(await readJson<RequestResource>(requestResourceUri(id))),
+      archivedTasks: flattenArchivedTrees(
+        await readJson<ArchivedTreeNode[]>(archiveResourceUri(id)),
+      ),
+    });
+    const history = (await taskManagerServer.getTaskHistory({
+      requestId: id,
+    })) as { events: TaskEvent[] };
+    events.push(...history.events);
+  }
+  events.sort((a, b) => a.eventId - b.eventId);
+  return { requests, events };
+};
+
+/**
+ * When each task last became active, from the recorded status changes
+ */
+const findActiveSince = (events: TaskEvent[]): Map<string, number> => {
+  const activeSince = new Map<string, number>();
+  for (const event of events) {
+    if (event.taskId && event.changes.status?.after === TaskStatus.Active) {
+      activeSince.set(event.taskId, parseTimestamp(event.createdAt));
+    }
+  }
+  return activeSince;
+};
+
+const describeEvent = (event: TaskEvent): string => {
+  const status = event.changes.status;
+  const fields = Object.keys(event.changes).filter(
+    (field) => field !== "updatedAt",
+  );
+  const what =
+    event.eventType !== "task_updated" && event.eventType !== "request_updated"
+      ? event.eventType.replace("_", " ")
+      : status
+        ? `${status.before} → ${status.after}`
+        : `updated ${fields.join(", ")}`;
+  const source = [event.toolName, event.actor && `(${event.actor})`]
+    .filter(Boolean)
+    .join(" ");
+  return `${chalk.gray(formatClock(parseTimestamp(event.createdAt)))}  ${chalk.cyan((event.taskId || event.requestId || "").padEnd(10))} ${what}  ${chalk.gray(source)}`;
+};
+
+const renderRequest = (
+  request: WatchedRequest,
+  activeSince: Map<string, number>,
+  now: number,
+): string[] => {
+  // Archived tasks only leave the active table once their tree is settled
+  const done =
+    request.tasks.filter((t) => t.status === TaskStatus.Done).length +
+    request.archivedTaskCount;
+  const total = request.tasks.length + request.archivedTaskCount;
+  const width = 20;
+  const filled = total > 0 ? Math.round((done / total) * width) : 0;
+  const lines = [
+    `${chalk.bold.cyan(request.requestId)}  ${chalk.green("█".repeat(filled))}${chalk.gray("░".repeat(width - filled))} ${done}/${total}  ${request.originalRequest}`,
+  ];
+
+  const blocked = new Map(
+    describeBlockedChains(request.tasks, request.archivedTasks).map((chain) => [
+      chain.taskId,
+      formatBlockedChain(chain),
+    ]),
+  );
+  const ids = new Set(request.tasks.map((task) => task.id));
+  const children = new Map<string, Task[]>();
+  for (const task of request.tasks) {
+    const parent = task.parentId && ids.has(task.parentId) ? task.parentId : "";
+    children.set(parent, [...(children.get(parent) || []), task]);
+  }
+
+  const detail = (task: Task): string => {
+    if (task.status === TaskStatus.Active) {
+      const since = activeSince.get(task.id) ?? parseTimestamp(task.updatedAt);
+      const owner = task.leaseOwner || task.assignee;
+      return (
+        chalk.blue(`active ${formatElapsed(now - since)}`) +
+        (owner ? chalk.gray(` @${owner}`) : "")
+      );
+    }
+    if (task.status === TaskStatus.Blocked) {
+      return chalk.hex("#ea580c")(
+        `blocked: ${blocked.get(task.id) || task.blockedBy}`,
+      );
+    }
+    if (task.status === TaskStatus.Failed && task.failureReason) {
+      return chalk.red(task.failureReason);
+    }
+    return "";
+  };
+
+  const visit = (parentId: string, prefix: string) => {
+    const list = children.get(parentId) || [];
+    list.forEach((task, index) => {
+      const last = index === list.length - 1;
+      lines.push(
+        `${prefix}${last ? "└─ " : "├─ "}${STATUS_GLYPHS[task.status] || "·"} ${chalk.cyan(task.id)} ${task.title}${detail(task) && `  ${detail(task)}`}`,
+      );
+      visit(task.id, `${prefix}${last ? "   " : "│  "}`);
+    });
+  };
+  visit("", "");
+  if (request.tasks.length === 0) lines.push(chalk.gray("  No active tasks."));
+  return lines;
+};
+
+/**
+ * Renders one frame of the watch view
+ */
+export const renderWatchFrame = (
+  snapshot: WatchSnapshot,
+  options: WatchOptions,
+  now: number = Date.now(),
+): string => {
+  const activeSince = findActiveSince(snapshot.events);
+  const lines = [
+    `${chalk.bold("Meta Mind watch")} ${chalk.gray(`· ${options.requestId || "open requests"} · ${formatClock(now)} · Ctrl+C to exit`)}`,
+    "",
+  ];
+
+  if (snapshot.requests.length === 0) {
+    lines.push(chalk.gray("No open requests."));
+  }
+  for (const request of snapshot.requests) {
+    lines.push(...renderRequest(request, activeSince, now), "");
+  }
+
+  lines.push(chalk.bold("Recent events"));
+  const recent = snapshot.events.slice(-options.eventCount).reverse();
+  if (recent.length === 0) lines.push(chalk.gray("No events yet."));
+  lines.push(...recent.map(describeEvent));
+  return lines.join("\n");
+};
+
+/**
+ * Redraws the task tree until interrupted. The database is re-read only when
+ * its data_version shows another process committed; in between, frames just
+ * advance the elapsed timers.
+ * @returns Process exit code
+ */
+export const runWatch = async (
+  taskManagerServer: TaskManagerServer,
+  options: WatchOptions,
+): Promise<number> => {
+  let snapshot = await loadSnapshot(taskManagerServer, options.requestId);
+  if (options.once) {
+    console.log(renderWatchFrame(snapshot, options));
+    return 0;
+  }
+
+  let dataVersion = taskManagerServer.getDataVersion();
+  let error: string | null = null;
+
+  const draw = () => {
+    const frame = renderWatchFrame(snapshot, options).replace(
+      /\n/g,
+      `${CLEAR_LINE_END}\n`,
+    );
+    const footer = error ? `\n\n${chalk.red(`Refresh failed: ${error}`)}` : "";
+    process.stdout.write(
+      `${CURSOR_HOME}${frame}${footer}${CLEAR_LINE_END}${CLEAR_BELOW}`,
+    );
+  };
+
+  const tick = async () => {
+    const current = taskManagerServer.getDataVersion();
+    if (current !== dataVersion) {
+      dataVersion = current;
+      try {
+        snapshot = await loadSnapshot(taskManagerServer, options.requestId);
+        error = null;
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+    }
+    draw();
+  };
+
+  process.stdout.write("\x1b[2J\x1b[?25l"); // clear screen, hide cursor
+  draw();
+
+  return new Promise((resolve) => {
+    let running = false;
+    const timer = setInterval(() => {
+      if (running) return;
+      running = true;
+      tick().finally(() => (running = false));
+    }, options.intervalMs);
+
+    process.once("SIGINT", () => {
+      clearInterval(timer);
+      process.stdout.write("\x1b[?25h\n"); // show cursor again
+      resolve(0);
+    });
+  });
+};
@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, server } from "./helpers.js";
+import { AgentStatus, TaskType } from "../src/interfaces.js";
+
+const register = (
+  agentId: string,
+  options: {
+    taskTypes?: TaskType[];
+    maxConcurrency?: number;
+    status?: AgentStatus;
+  } = {},
+) =>
+  call("register_agent", () =>
+    server.registerAgent({ agentId, ...options }),
+  ) as Promise<{ status: string }>;
+
+const claim = (requestId: string, agentId: string) =>
+  call("claim_next_task", () =>
+    server.claimNextTask({ requestId, agentId }),
+  ) as Promise<{ status: string; task?: { id: string } }>;
+
+test("agents only claim tasks of their types or assigned to them", async () => {
+  await register("tester", { taskTypes: [TaskType.Test] });
+  await register("coder", { taskTypes: [TaskType.Code], maxConcurrency: 2 });
+  const {
+    requestId,
+    taskIds: [code, tests, assigned],
+  } = await planRequest([
+    { title: "Implement", type: TaskType.Code },
+    { title: "Cover", type: TaskType.Test },
+    { title: "Review", assignee: "lead" },
+  ]);
+
+  assert.equal((await claim(requestId, "tester")).task?.id, tests);
+  assert.equal((await claim(requestId, "coder")).task?.id, code);
+  assert.equal((await claim(requestId, "coder")).status, "no_actionable_tasks");
+  assert.equal((await claim(requestId, "lead")).task?.id, assigned);
+});
+
+test("paused and busy agents get no work", async () => {
+  await register("solo", { maxConcurrency: 1 });
+  const { requestId } = await planRequest([
+    { title: "First" },
+    { title: "Second" },
+  ]);
+
+  assert.equal((await claim(requestId, "solo")).status, "claimed");
+  const busy = await claim(requestId, "solo");
+  assert.equal(busy.status, "agent_unavailable");
+
+  await register("solo", { status: AgentStatus.Paused });
+  assert.equal((await claim(requestId, "solo")).status, "agent_unavailable");
+});
+
+test("registering keeps unspecified fields and reports workload", async () => {
+  assert.equal(
+    (await register("keeper", { taskTypes: [TaskType.Debug] })).status,
+    "agent_registered",
+  );
+  assert.equal(
+    (await register("keeper", { maxConcurrency: 3 })).status,
+    "agent_updated",
+  );
+  const { requestId } = await planRequest([
+    { title: "Bug", type: TaskType.Debug },
+  ]);
+  await claim(requestId, "keeper");
+
+  const { agents } = (await server.listAgents({})) as {
+    agents: Array<{
+      agentId: string;
+      taskTypes: string[];
+      maxConcurrency: number;
+      workload: { active: number };
+    }>;
+  };
+  const keeper = agents.find((agent) => agent.agentId === "keeper");
+  assert.deepEqual(keeper?.taskTypes, ["debug"]);
+  assert.equal(keeper?.maxConcurrency, 3);
+  assert.equal(keeper?.workload.active, 1);
+});
+
+test("agent registrations are recorded as changes", async () => {
+  const changes: Array<{ eventType: string }> = [];
+  const stop = server.onRepositoryChange((change) => changes.push(change));
+  await register("recorded");
+  await register("recorded", { status: AgentStatus.Offline });
+  stop();
+
+  assert.deepEqual(
+    changes.map((change) => change.eventType),
+    ["agent_created", "agent_updated"],
+  );
+});
@@ -0,0 +1,156 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+interface Question {
+  questionId: string;
+  taskId: string;
+  taskTitle?: string;
+  answer?: string;
+  answeredBy?: string;
+}
+
+const ask = async (requestId: string, taskId: string, questions: string[]) =>
+  (
+    (await call("request_clarification", () =>
+      server.requestClarification({ requestId, taskId, questions }),
+    )) as { questions: Question[] }
+  ).questions;
+
+const answer = (requestId: string, questionId: string) =>
+  call("answer_clarification", () =>
+    server.answerClarification({
+      requestId,
+      questionId,
+      answer: "Use Postgres",
+      answeredBy: "product",
+    }),
+  ) as Promise<{ openQuestions: number }>;
+
+const openQuestions = async (requestId: string) =>
+  (
+    (await server.listOpenQuestions({ requestId })) as {
+      questions: Question[];
+    }
+  ).questions;
+
+const questionsOf = async (taskId: string) =>
+  (
+    (await server.openTaskDetails({ taskId })) as {
+      clarifications: Question[];
+    }
+  ).clarifications;
+
+test("a task waits for clarification until every question is answered", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Pick a database" }]);
+
+  const [first, second] = await ask(requestId, taskId, [
+    "Which database?",
+    "Which region?",
+  ]);
+  assert.equal(
+    (await readRequest(requestId)).tasks[0].status,
+    "requires-clarification",
+  );
+  assert.deepEqual(
+    (await openQuestions(requestId)).map((q) => q.questionId),
+    [first.questionId, second.questionId],
+  );
+
+  assert.equal((await answer(requestId, first.questionId)).openQuestions, 1);
+  assert.equal(
+    (await readRequest(requestId)).tasks[0].status,
+    "requires-clarification",
+  );
+  await assert.rejects(
+    answer(requestId, first.questionId),
+    /was already answered/,
+  );
+
+  assert.equal((await answer(requestId, second.questionId)).openQuestions, 0);
+  assert.equal((await readRequest(requestId)).tasks[0].status, "pending");
+  assert.deepEqual(await openQuestions(requestId), []);
+
+  const [answered] = await questionsOf(taskId);
+  assert.equal(answered.answer, "Use Postgres");
+  assert.equal(answered.answeredBy, "product");
+});
+
+test("questions stay with a task through archive and restore", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Pick a database" }, { title: "Migrate" }]);
+  const [question] = await ask(requestId, taskId, ["Which database?"]);
+  await answer(requestId, question.questionId);
+
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId }),
+  );
+  assert.equal((await readRequest(requestId)).archivedTaskCount, 1);
+
+  await call("restore_task_tree", () =>
+    server.restoreTaskTree({ requestId, taskId }),
+  );
+  assert.equal((await questionsOf(taskId))[0].answer, "Use Postgres");
+});
+
+test("undoing a delete brings back the task's open questions", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Pick a database" }, { title: "Migrate" }]);
+  const [question] = await ask(requestId, taskId, ["Which database?"]);
+
+  await call("delete_task", () => server.deleteTask({ requestId, taskId }));
+  assert.deepEqual(await openQuestions(requestId), []);
+  await assert.rejects(
+    answer(requestId, question.questionId),
+    /is archived or deleted/,
+  );
+
+  await call("undo", () => server.undo({ requestId }));
+  assert.deepEqual(
+    (await openQuestions(requestId)).map((q) => q.questionId),
+    [question.questionId],
+  );
+});
+
+test("asking and answering are recorded and can be undone", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Pick a database" }]);
+  const [question] = await ask(requestId, taskId, ["Which database?"]);
+  await answer(requestId, question.questionId);
+
+  const { events } = (await server.getTaskHistory({ taskId })) as {
+    events: Array<{ eventType: string; toolName?: string }>;
+  };
+  assert.deepEqual(
+    events
+      .filter((event) => event.eventType.startsWith("question_"))
+      .map((event) => [event.eventType, event.toolName]),
+    [
+      ["question_created", "request_clarification"],
+      ["question_updated", "answer_clarification"],
+    ],
+  );
+
+  await call("undo", () => server.undo({ requestId }));
+  assert.deepEqual(
+    (await openQuestions(requestId)).map((q) => q.questionId),
+    [question.questionId],
+  );
+  assert.equal(
+    (await readRequest(requestId)).tasks[0].status,
+    "requires-clarification",
+  );
+
+  await call("undo", () => server.undo({ requestId }));
+  assert.deepEqual(await questionsOf(taskId), []);
+  assert.equal((await readRequest(requestId)).tasks[0].status, "pending");
+});
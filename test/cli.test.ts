@@ -0,0 +1,90 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { planRequest, readRequest, server } from "./helpers.js";
+import { isCliCommand, parseArgs, runCli } from "../src/cli.js";
+
+/**
+ * Runs a CLI command and captures what it prints
+ */
+const cli = async (...argv: string[]) => {
+  const log = mock.method(console, "log", () => {});
+  const error = mock.method(console, "error", () => {});
+  try {
+    const exitCode = await runCli(server, argv);
+    const output = (m: typeof log) =>
+      m.mock.calls.map((call) => call.arguments.join(" ")).join("\n");
+    return { exitCode, stdout: output(log), stderr: output(error) };
+  } finally {
+    log.mock.restore();
+    error.mock.restore();
+  }
+};
+
+test("arguments are split into positionals and flags", () => {
+  assert.deepEqual(
+    parseArgs(["fail", "task-1", "--reason", "Flaky", "--json", "--x=a=b"]),
+    {
+      positionals: ["fail", "task-1"],
+      flags: { reason: "Flaky", json: true, x: "a=b" },
+    },
+  );
+});
+
+test("only own commands are recognized", () => {
+  assert.equal(isCliCommand("requests"), true);
+  assert.equal(isCliCommand("--help"), true);
+  assert.equal(isCliCommand(undefined), false);
+  assert.equal(isCliCommand("--transport"), false);
+  assert.equal(isCliCommand("constructor"), false);
+  assert.equal(isCliCommand("toString"), false);
+});
+
+test("commands resolve the request from the task and record the change", async () => {
+  const {
+    requestId,
+    taskIds: [taskId, other],
+  } = await planRequest([{ title: "Backend" }, { title: "Frontend" }]);
+
+  const done = await cli("done", taskId, "--details", "Shipped", "--json");
+  assert.equal(done.exitCode, 0);
+  assert.equal(JSON.parse(done.stdout).status, "done");
+  assert.deepEqual(
+    (await readRequest(requestId)).tasks.map((task) => task.id),
+    [other],
+  );
+
+  const { events } = (await server.getTaskHistory({ taskId })) as {
+    events: Array<{ toolName?: string; actor?: string }>;
+  };
+  assert.ok(
+    events.some(
+      (event) => event.toolName === "cli:done" && event.actor === "cli",
+    ),
+  );
+
+  const tasks = await cli("tasks", requestId, "--archived", "--json");
+  const { archive } = JSON.parse(tasks.stdout) as {
+    archive: Array<{ id: string }>;
+  };
+  assert.deepEqual(
+    archive.map((task) => task.id),
+    [taskId],
+  );
+
+  const shown = await cli("show", taskId);
+  assert.match(shown.stdout, /Completed:\s+Shipped/);
+});
+
+test("failed commands print an error and exit non-zero", async () => {
+  const missing = await cli("show", "task-missing");
+  assert.equal(missing.exitCode, 1);
+  assert.match(missing.stderr, /Task 'task-missing' not found/);
+
+  const noArg = await cli("retry");
+  assert.equal(noArg.exitCode, 1);
+  assert.match(noArg.stderr, /Missing <taskId>/);
+
+  const help = await cli("constructor");
+  assert.equal(help.exitCode, 0);
+  assert.match(help.stdout, /^Usage: mcp-meta-mind/);
+});
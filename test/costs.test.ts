@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, server } from "./helpers.js";
+import {
+  formatCostTotals,
+  parseCostEntries,
+  rollupTaskCosts,
+} from "../src/costs.js";
+import {
+  CostTotals,
+  Task,
+  TaskCostRollup,
+  TaskPriority,
+  TaskStatus,
+} from "../src/interfaces.js";
+
+const totals = (
+  inputTokens: number,
+  outputTokens: number,
+  toolCalls: number,
+  wallClockMinutes: number,
+): CostTotals => ({ inputTokens, outputTokens, toolCalls, wallClockMinutes });
+
+const recordCost = (
+  requestId: string,
+  taskId: string,
+  cost: Partial<CostTotals>,
+) =>
+  call("record_task_cost", () =>
+    server.recordTaskCost({ requestId, taskId, ...cost }),
+  ) as Promise<{ taskCosts: TaskCostRollup }>;
+
+const costReport = async (requestId: string, includeArchived = true) =>
+  (await server.getRequestCostReport({ requestId, includeArchived })) as {
+    totals: CostTotals;
+    archivedTotals: CostTotals;
+    tasks: Array<{ taskId: string; location: string; total: CostTotals }>;
+  };
+
+test("costs roll up from subtasks and survive archiving", async () => {
+  const {
+    requestId,
+    taskIds: [parentId],
+  } = await planRequest([{ title: "Feature" }]);
+  const { createdSubtasks } = (await call("split_task", () =>
+    server.splitTask({
+      requestId,
+      taskIdToSplit: parentId,
+      newSubtaskDefinitions: [
+        { title: "Backend", description: "" },
+        { title: "Frontend", description: "" },
+      ],
+    }),
+  )) as { createdSubtasks: Array<{ id: string }> };
+  const [backend, frontend] = createdSubtasks.map((subtask) => subtask.id);
+
+  await recordCost(requestId, parentId, { toolCalls: 1 });
+  await recordCost(requestId, backend, { inputTokens: 100, outputTokens: 10 });
+  const { taskCosts } = await recordCost(requestId, backend, {
+    wallClockMinutes: 2.5,
+  });
+  assert.deepEqual(taskCosts.own, totals(100, 10, 0, 2.5));
+
+  const frontendCost = await recordCost(requestId, frontend, { toolCalls: 4 });
+  assert.deepEqual(frontendCost.taskCosts.total, totals(0, 0, 4, 0));
+
+  const active = await costReport(requestId);
+  assert.deepEqual(active.totals, totals(100, 10, 5, 2.5));
+  assert.deepEqual(
+    active.tasks.find((task) => task.taskId === parentId)?.total,
+    totals(100, 10, 5, 2.5),
+  );
+
+  for (const taskId of [backend, frontend]) {
+    await call("mark_task_done", () =>
+      server.markTaskDone({ requestId, taskId }),
+    );
+  }
+  const archived = await costReport(requestId);
+  assert.deepEqual(archived.archivedTotals, totals(100, 10, 5, 2.5));
+  assert.ok(archived.tasks.every((task) => task.location === "archived"));
+  assert.deepEqual(
+    (await costReport(requestId, false)).totals,
+    totals(0, 0, 0, 0),
+  );
+});
+
+test("recording a cost on an unknown task fails", async () => {
+  const { requestId } = await planRequest([{ title: "Build" }]);
+  await assert.rejects(
+    recordCost(requestId, "task-missing", { toolCalls: 1 }),
+    /task-missing/,
+  );
+});
+
+test("cost data written before cost tracking reads as empty", () => {
+  assert.deepEqual(parseCostEntries(null), []);
+  assert.deepEqual(parseCostEntries("{}"), []);
+  assert.equal(formatCostTotals(totals(0, 0, 0, 0)), "-");
+  assert.equal(
+    formatCostTotals(totals(12000, 500, 8, 14.04)),
+    "12.5k tok, 8 calls, 14 min",
+  );
+});
+
+test("rollups ignore subtasks outside the list and cycles", () => {
+  const task = (id: string, subtaskIds: string[], toolCalls: number): Task => ({
+    id,
+    title: id,
+    description: "",
+    status: TaskStatus.Pending,
+    priority: TaskPriority.Medium,
+    subtaskIds,
+    costEntries: [{ ...totals(0, 0, toolCalls, 0), recordedAt: "" }],
+    createdAt: "",
+    updatedAt: "",
+  });
+
+  const rollups = rollupTaskCosts([
+    task("a", ["b", "missing"], 1),
+    task("b", ["a"], 2),
+  ]);
+  assert.equal(rollups.get("a")?.total.toolCalls, 3);
+  assert.equal(rollups.get("b")?.own.toolCalls, 2);
+});
@@ -0,0 +1,82 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import { planRequest, readRequest, server } from "./helpers.js";
+import { startDashboard } from "../src/dashboard.js";
+
+const dashboard = await startDashboard(server, { host: "127.0.0.1", port: 0 });
+const base = `http://127.0.0.1:${(dashboard.address() as AddressInfo).port}`;
+after(() => dashboard.close());
+
+const markDone = (requestId: string, taskId: string, init: RequestInit) =>
+  fetch(`${base}/api/requests/${requestId}/tasks/${taskId}/done`, {
+    method: "POST",
+    body: "{}",
+    ...init,
+  });
+
+test("dashboard writes reject cross-site requests", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Build" }]);
+
+  const plainText = await markDone(requestId, taskId, {
+    headers: { "Content-Type": "text/plain" },
+  });
+  assert.equal(plainText.status, 415);
+
+  const otherOrigin = await markDone(requestId, taskId, {
+    headers: {
+      "Content-Type": "application/json",
+      Origin: "https://evil.example",
+    },
+  });
+  assert.equal(otherOrigin.status, 403);
+  assert.equal((await readRequest(requestId)).tasks[0].status, "pending");
+
+  const sameOrigin = await markDone(requestId, taskId, {
+    headers: { "Content-Type": "application/json", Origin: base },
+  });
+  assert.equal(sameOrigin.status, 200);
+});
+
+test("dashboard rejects requests for other host names", async () => {
+  // fetch cannot override Host, which is what a DNS rebinding page sends
+  const statusFor = (host: string) =>
+    new Promise<number>((resolve, reject) => {
+      http
+        .get(`${base}/api/requests`, { headers: { Host: host } }, (res) => {
+          res.resume();
+          resolve(res.statusCode!);
+        })
+        .on("error", reject);
+    });
+  const { port } = dashboard.address() as AddressInfo;
+
+  assert.equal(await statusFor(`evil.example:${port}`), 403);
+  assert.equal(await statusFor(`localhost:${port + 1}`), 403);
+  assert.equal(await statusFor(`localhost:${port}`), 200);
+  assert.equal(await statusFor(`127.0.0.1:${port}`), 200);
+});
+
+test("dashboard only runs its own task actions", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Build" }]);
+
+  for (const action of ["constructor", "toString", "__proto__"]) {
+    const res = await fetch(
+      `${base}/api/requests/${requestId}/tasks/${taskId}/${action}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{}",
+      },
+    );
+    assert.equal(res.status, 404);
+    assert.match((await res.json()).error, /Unknown task action/);
+  }
+});
@@ -0,0 +1,111 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { call, planRequest, server } from "./helpers.js";
+
+/**
+ * Plans two tasks and completes the first, which auto-archives it
+ */
+const planHalfDoneRequest = async () => {
+  const {
+    requestId,
+    taskIds: [done, open],
+  } = await planRequest([
+    { title: "Draft schema" },
+    { title: 'Write "fast", safe queries' },
+  ]);
+  await call("mark_task_done", () =>
+    server.markTaskDone({
+      requestId,
+      taskId: done,
+      completedDetails: "Tables created",
+    }),
+  );
+  return { requestId, done, open };
+};
+
+const exportContent = async (
+  requestId: string,
+  format: "markdown" | "json" | "csv",
+  includeArchived?: boolean,
+) =>
+  (
+    (await server.exportRequest({ requestId, format, includeArchived })) as {
+      content: string;
+    }
+  ).content;
+
+test("markdown export lists active and archived tasks", async () => {
+  const { requestId, done, open } = await planHalfDoneRequest();
+
+  const markdown = await exportContent(requestId, "markdown");
+  assert.match(markdown, new RegExp(`^# ${requestId}: Ship the feature`));
+  assert.match(markdown, /\*\*Progress:\*\* 1\/2 task\(s\) done, 0 failed/);
+  assert.match(markdown, new RegExp(`- \\[ \\] \`${open}\``));
+  assert.match(markdown, /## Archived Tasks/);
+  assert.match(markdown, new RegExp(`- \\[x\\] \`${done}\``));
+  assert.match(markdown, /- Completed: Tables created/);
+
+  const activeOnly = await exportContent(requestId, "markdown", false);
+  assert.doesNotMatch(activeOnly, /## Archived Tasks/);
+});
+
+test("json export keeps every task field", async () => {
+  const { requestId, done, open } = await planHalfDoneRequest();
+
+  const exported = JSON.parse(await exportContent(requestId, "json")) as {
+    exportFormatVersion: number;
+    request: { requestId: string; tasks?: unknown };
+    tasks: Array<{ id: string; status: string }>;
+    archivedTasks: Array<{ id: string; completedDetails: string }>;
+  };
+  assert.equal(exported.exportFormatVersion, 1);
+  assert.equal(exported.request.requestId, requestId);
+  assert.equal(exported.request.tasks, undefined);
+  assert.deepEqual(
+    exported.tasks.map((task) => [task.id, task.status]),
+    [[open, "pending"]],
+  );
+  assert.equal(exported.archivedTasks[0].id, done);
+  assert.equal(exported.archivedTasks[0].completedDetails, "Tables created");
+});
+
+test("csv export quotes cells and marks task locations", async () => {
+  const { requestId, done, open } = await planHalfDoneRequest();
+
+  const [header, ...rows] = (await exportContent(requestId, "csv"))
+    .trimEnd()
+    .split("\r\n");
+  assert.match(header, /^taskId,requestId,location,parentId,title,/);
+  assert.equal(rows.length, 2);
+  assert.ok(
+    rows[0].startsWith(
+      `${open},${requestId},active,,"Write ""fast"", safe queries",`,
+    ),
+  );
+  assert.ok(rows[1].startsWith(`${done},${requestId},archived,,Draft schema,`));
+});
+
+test("export writes to outputPath and rejects unknown requests", async () => {
+  const { requestId } = await planHalfDoneRequest();
+  const outputPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "meta-mind-export-")),
+    "nested",
+    "report.md",
+  );
+
+  const result = (await server.exportRequest({ requestId, outputPath })) as {
+    outputPath: string;
+    content?: string;
+  };
+  assert.equal(result.outputPath, outputPath);
+  assert.equal(result.content, undefined);
+  assert.match(fs.readFileSync(outputPath, "utf-8"), /## Active Tasks/);
+
+  await assert.rejects(
+    server.exportRequest({ requestId: "req-missing" }),
+    /Request 'req-missing' not found/,
+  );
+});
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeTaskGraph, renderMermaid } from "../src/graphRenderer.js";
+import { Task, TaskPriority, TaskStatus } from "../src/interfaces.js";
+import { call, planRequest, server } from "./helpers.js";
+
+const task = (
+  id: string,
+  status: TaskStatus,
+  dependsOn: string[] = [],
+): Task => ({
+  id,
+  title: id,
+  description: "",
+  status,
+  priority: TaskPriority.Medium,
+  dependsOn,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+});
+
+test("the blocked highlight does not share a class with the blocked status", () => {
+  const mermaid = renderMermaid(
+    [
+      task("task-1", TaskStatus.Failed),
+      task("task-2", TaskStatus.Blocked, ["task-1"]),
+      task("task-3", TaskStatus.Pending, ["task-2"]),
+    ],
+    { highlightBlocked: true },
+  );
+  const classDefs = mermaid
+    .split("\n")
+    .filter((line) => line.trim().startsWith("classDef "))
+    .map((line) => line.trim().split(" ")[1]);
+
+  assert.deepEqual(classDefs, [...new Set(classDefs)]);
+  assert.match(mermaid, /classDef blocked fill:/);
+  assert.match(mermaid, /class task_3 blockedHighlight/);
+});
+
+test("dependencies that were done and archived do not block", () => {
+  const active = [task("task-2", TaskStatus.Pending, ["task-1"])];
+  const archived = [task("task-1", TaskStatus.Done)];
+
+  assert.deepEqual(analyzeTaskGraph(active).blockedTaskIds, ["task-2"]);
+  assert.deepEqual(analyzeTaskGraph(active, archived).blockedTaskIds, []);
+
+  const mermaid = renderMermaid(active, {
+    highlightBlocked: true,
+    archivedTasks: archived,
+  });
+  assert.doesNotMatch(mermaid, /class task_2 blockedHighlight/);
+  assert.doesNotMatch(mermaid, /task_1/);
+});
+
+test("render_task_graph reads archived dependencies", async () => {
+  const {
+    requestId,
+    taskIds: [schema, api],
+  } = await planRequest([{ title: "Schema" }, { title: "API" }]);
+  await call("add_dependency", () =>
+    server.addDependency({ requestId, taskId: api, dependsOnTaskId: schema }),
+  );
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: schema }),
+  );
+
+  const graph = (await server.renderTaskGraph({
+    requestId,
+    format: "mermaid",
+    highlightBlocked: true,
+  })) as { blockedTasks: string[] };
+  assert.deepEqual(graph.blockedTasks, []);
+});
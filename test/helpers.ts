@@ -0,0 +1,63 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { TaskType } from "../src/interfaces.js";
+
+// The database lives under the home directory, which must be set before the
+// server modules load. Each test file runs in its own process and database.
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "meta-mind-test-"));
+
+const { TaskManagerServer } = await import("../src/taskManagerServer.js");
+const { runWithEventContext } = await import("../src/eventContext.js");
+
+export const server = new TaskManagerServer();
+await server.init();
+
+/**
+ * Runs a server method the way index.ts runs a tool call, so its events form
+ * one undoable operation
+ */
+export const call = <T>(toolName: string, fn: () => Promise<T>): Promise<T> =>
+  runWithEventContext({ operationId: randomUUID(), toolName }, fn);
+
+export interface RequestResource {
+  completed: boolean;
+  tasks: Array<{
+    id: string;
+    parentId?: string;
+    subtaskIds?: string[];
+    status: string;
+    dependsOn?: string[];
+    blockedBy?: string;
+  }>;
+  archivedTaskCount: number;
+}
+
+export const readRequest = async (
+  requestId: string,
+): Promise<RequestResource> =>
+  JSON.parse(
+    (await server.readResource(`meta-mind://request/${requestId}`)).text,
+  );
+
+/**
+ * Plans a request and returns its ID with the IDs of its tasks, in order
+ */
+export const planRequest = async (
+  tasks: Array<{
+    title: string;
+    dependsOn?: string[];
+    type?: TaskType;
+    assignee?: string;
+  }>,
+): Promise<{ requestId: string; taskIds: string[] }> => {
+  const { requestId } = (await call("request_planning", () =>
+    server.requestPlanning({
+      originalRequest: "Ship the feature",
+      tasks: tasks.map((task) => ({ description: "", ...task })),
+    }),
+  )) as { requestId: string };
+  const taskIds = (await readRequest(requestId)).tasks.map((task) => task.id);
+  return { requestId, taskIds };
+};
@@ -0,0 +1,124 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import { once } from "node:events";
+import { AddressInfo } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { startHttpServer } from "../src/httpServer.js";
+
+const AUTH_TOKEN = "test-token";
+const AUTHORIZATION = { Authorization: `Bearer ${AUTH_TOKEN}` };
+
+const httpServer = await startHttpServer(
+  () => new Server({ name: "test", version: "1.0.0" }, { capabilities: {} }),
+  { host: "127.0.0.1", port: 0, authToken: AUTH_TOKEN },
+);
+const { port } = httpServer.address() as AddressInfo;
+const base = `http://127.0.0.1:${port}`;
+after(() => httpServer.close());
+
+const health = async () =>
+  (await (await fetch(`${base}/health`)).json()) as { sessions: number };
+
+/**
+ * Opens an SSE stream and collects the data of each event it receives
+ */
+const openStream = async () => {
+  const req = http.get(`${base}/sse`, { headers: AUTHORIZATION });
+  const [res] = (await once(req, "response")) as [http.IncomingMessage];
+  assert.equal(res.statusCode, 200);
+
+  const events: string[] = [];
+  let buffer = "";
+  res.setEncoding("utf-8");
+  res.on("data", (chunk: string) => {
+    buffer += chunk;
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop()!;
+    for (const block of blocks) {
+      const data = block.split("\n").find((line) => line.startsWith("data: "));
+      if (data) events.push(data.slice("data: ".length));
+    }
+  });
+  const nextEvent = async (): Promise<string> => {
+    while (events.length === 0) await sleep(5);
+    return events.shift()!;
+  };
+  return { nextEvent, close: () => req.destroy() };
+};
+
+test("health is served without a token and counts sessions", async () => {
+  const res = await fetch(`${base}/health`);
+  assert.equal(res.status, 200);
+  assert.deepEqual(
+    { ...(await res.json()), uptimeSeconds: 0 },
+    { status: "ok", sessions: 0, uptimeSeconds: 0 },
+  );
+});
+
+test("MCP requests need the bearer token", async () => {
+  assert.equal((await fetch(`${base}/sse`)).status, 401);
+  const wrongToken = await fetch(`${base}/sse`, {
+    headers: { Authorization: "Bearer wrong" },
+  });
+  assert.equal(wrongToken.status, 401);
+  assert.equal(wrongToken.headers.get("www-authenticate"), "Bearer");
+});
+
+test("MCP requests for other host names are rejected", async () => {
+  const statusFor = (host: string) =>
+    new Promise<number>((resolve, reject) => {
+      http
+        .get(
+          `${base}/sse`,
+          { headers: { ...AUTHORIZATION, Host: host } },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode!);
+          },
+        )
+        .on("error", reject);
+    });
+  assert.equal(await statusFor(`evil.example:${port}`), 403);
+  assert.equal(await statusFor(`127.0.0.1:${port + 1}`), 403);
+});
+
+test("a client initializes over its SSE session", async () => {
+  const stream = await openStream();
+  try {
+    const endpoint = await stream.nextEvent();
+    assert.match(endpoint, /^\/messages\?sessionId=/);
+    assert.equal((await health()).sessions, 1);
+
+    const post = await fetch(`${base}${endpoint}`, {
+      method: "POST",
+      headers: { ...AUTHORIZATION, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2024-11-05",
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+      }),
+    });
+    assert.equal(post.status, 202);
+
+    const response = JSON.parse(await stream.nextEvent());
+    assert.equal(response.id, 1);
+    assert.equal(response.result.serverInfo.name, "test");
+  } finally {
+    stream.close();
+  }
+
+  while ((await health()).sessions > 0) await sleep(5);
+  const closed = await fetch(`${base}/messages?sessionId=closed`, {
+    method: "POST",
+    headers: { ...AUTHORIZATION, "Content-Type": "application/json" },
+    body: "{}",
+  });
+  assert.equal(closed.status, 404);
+});
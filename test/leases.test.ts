@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+interface ClaimResult {
+  status: string;
+  task?: { id: string; status: string };
+  leaseExpiresAt?: string;
+}
+
+const claim = (requestId: string, agentId: string, leaseMinutes?: number) =>
+  call("claim_next_task", () =>
+    server.claimNextTask({ requestId, agentId, leaseMinutes }),
+  ) as Promise<ClaimResult>;
+
+const heartbeat = (requestId: string, taskId: string, agentId: string) =>
+  call("heartbeat_task", () =>
+    server.heartbeatTask({ requestId, taskId, agentId, leaseMinutes: 30 }),
+  ) as Promise<{ leaseExpiresAt: string }>;
+
+const actionableIds = async (requestId: string) =>
+  (
+    (await server.listActionableTasks({ requestId })) as {
+      tasks: Array<{ id: string }>;
+    }
+  ).tasks.map((task) => task.id);
+
+test("agents claim different tasks until none are left", async () => {
+  const {
+    requestId,
+    taskIds: [first, second],
+  } = await planRequest([{ title: "Backend" }, { title: "Frontend" }]);
+  assert.deepEqual(await actionableIds(requestId), [first, second]);
+
+  const a = await claim(requestId, "agent-a");
+  const b = await claim(requestId, "agent-b");
+  assert.equal(a.status, "claimed");
+  assert.equal(b.status, "claimed");
+  assert.deepEqual([a.task?.id, b.task?.id].sort(), [first, second].sort());
+  assert.equal(a.task?.status, "active");
+
+  assert.equal(
+    (await claim(requestId, "agent-c")).status,
+    "no_actionable_tasks",
+  );
+  assert.deepEqual(await actionableIds(requestId), []);
+});
+
+test("heartbeats extend a lease and are recorded", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Backend" }]);
+  const claimed = await claim(requestId, "agent-a", 5);
+
+  const renewed = await heartbeat(requestId, taskId, "agent-a");
+  assert.ok(renewed.leaseExpiresAt > claimed.leaseExpiresAt!);
+  await assert.rejects(
+    heartbeat(requestId, taskId, "agent-b"),
+    /does not hold an active lease/,
+  );
+
+  const { events } = (await server.getTaskHistory({ taskId })) as {
+    events: Array<{ toolName?: string; changes: Record<string, unknown> }>;
+  };
+  const renewal = events.find((event) => event.toolName === "heartbeat_task");
+  assert.deepEqual(Object.keys(renewal?.changes || {}), ["leaseExpiresAt"]);
+});
+
+test("released and expired leases return tasks to pending", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Backend" }]);
+
+  await claim(requestId, "agent-a");
+  await call("release_task", () =>
+    server.releaseTask({ requestId, taskId, agentId: "agent-a" }),
+  );
+  assert.equal((await readRequest(requestId)).tasks[0].status, "pending");
+
+  await claim(requestId, "agent-b", 0.0001); // 6ms
+  await sleep(20);
+  assert.deepEqual(await actionableIds(requestId), [taskId]);
+  assert.equal((await readRequest(requestId)).tasks[0].status, "pending");
+  await assert.rejects(
+    heartbeat(requestId, taskId, "agent-b"),
+    /It may have expired/,
+  );
+});
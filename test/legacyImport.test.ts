@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { server } from "./helpers.js";
+
+const writeJson = (name: string, value: unknown): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "meta-mind-legacy-"));
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, JSON.stringify(value));
+  return filePath;
+};
+
+const legacyTask = (id: string, extra: object) => ({
+  id,
+  title: id,
+  description: "",
+  status: "failed",
+  priority: "medium",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+  ...extra,
+});
+
+test("legacy import keeps retry counts and cost data", async () => {
+  const entry = {
+    inputTokens: 100,
+    outputTokens: 20,
+    toolCalls: 3,
+    wallClockMinutes: 2,
+    recordedAt: "2025-01-01T00:00:00.000Z",
+  };
+  const tasksFilePath = writeJson("tasks.json", {
+    requests: [
+      {
+        requestId: "req-40",
+        originalRequest: "Legacy work",
+        splitDetails: "",
+        completed: false,
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+        tasks: [
+          legacyTask("task-40", {
+            retryCount: 2,
+            costData: { entries: [entry] },
+          }),
+          legacyTask("task-41", { retryCount: -1, costData: "oops" }),
+        ],
+      },
+    ],
+    metadata: { lastRequestId: 40, lastTaskId: 41 },
+  });
+
+  const result = (await server.importLegacyJson({ tasksFilePath })) as {
+    message: string;
+  };
+  assert.match(result.message, /task-41' has invalid retryCount/);
+  assert.match(result.message, /task-41' has unreadable costData, dropped/);
+
+  const { task } = (await server.openTaskDetails({ taskId: "task-40" })) as {
+    task: { retryCount: number; costEntries: unknown[] };
+  };
+  assert.equal(task.retryCount, 2);
+  assert.deepEqual(task.costEntries, [entry]);
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+test("merging re-points dependents at the merged task", async () => {
+  const {
+    requestId,
+    taskIds: [schema, migration, api],
+  } = await planRequest([
+    { title: "Schema" },
+    { title: "Migration" },
+    { title: "API" },
+  ]);
+  await call("add_dependency", () =>
+    server.addDependency({ requestId, taskId: api, dependsOnTaskId: schema }),
+  );
+  await call("add_dependency", () =>
+    server.addDependency({
+      requestId,
+      taskId: api,
+      dependsOnTaskId: migration,
+    }),
+  );
+  await call("mark_task_failed", () =>
+    server.markTaskFailed({ requestId, taskId: schema }),
+  );
+  assert.equal(
+    (await readRequest(requestId)).tasks.find((t) => t.id === api)?.status,
+    "blocked",
+  );
+
+  const { mergedTaskId } = (await call("merge_tasks", () =>
+    server.mergeTasks({
+      requestId,
+      primaryTaskId: schema,
+      taskIdsToMerge: [migration],
+    }),
+  )) as { mergedTaskId: string };
+
+  const dependent = (await readRequest(requestId)).tasks.find(
+    (t) => t.id === api,
+  )!;
+  assert.deepEqual(dependent.dependsOn, [mergedTaskId]);
+  assert.equal(dependent.status, "pending");
+  assert.equal(dependent.blockedBy, undefined);
+});
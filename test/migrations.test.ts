@@ -0,0 +1,153 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import Database from "better-sqlite3";
+import {
+  LATEST_SCHEMA_VERSION,
+  getSchemaVersion,
+  runMigrations,
+} from "../src/migrations.js";
+import { SchemaVersionError } from "../src/interfaces.js";
+
+// The tables of a database written by 0.3.0, before any migration ran
+const SCHEMA_0_3_0 = `
+  CREATE TABLE requests (
+      requestId TEXT PRIMARY KEY,
+      originalRequest TEXT NOT NULL,
+      splitDetails TEXT,
+      completed BOOLEAN NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+  );
+  CREATE TABLE tasks (
+      taskId TEXT PRIMARY KEY,
+      requestId TEXT NOT NULL,
+      parentId TEXT,
+      title TEXT NOT NULL,
+      description TEXT,
+      status TEXT NOT NULL,
+      priority TEXT NOT NULL,
+      type TEXT,
+      dependsOn TEXT,
+      subtaskIds TEXT,
+      failureReason TEXT,
+      suggestedRetryStrategy TEXT,
+      completedDetails TEXT,
+      artifactsGenerated TEXT,
+      environmentContext TEXT,
+      summaryFilePath TEXT,
+      costData TEXT,
+      feedbackHistory TEXT,
+      retryCount INTEGER DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      FOREIGN KEY (requestId) REFERENCES requests(requestId) ON DELETE CASCADE,
+      FOREIGN KEY (parentId) REFERENCES tasks(taskId) ON DELETE CASCADE
+  );
+  CREATE TABLE archived_tasks (
+      taskId TEXT PRIMARY KEY,
+      originalRequestId TEXT NOT NULL,
+      originalRequestText TEXT NOT NULL,
+      parentId TEXT,
+      title TEXT NOT NULL,
+      description TEXT,
+      status TEXT NOT NULL,
+      priority TEXT NOT NULL,
+      type TEXT,
+      dependsOn TEXT,
+      subtaskIds TEXT,
+      failureReason TEXT,
+      suggestedRetryStrategy TEXT,
+      completedDetails TEXT,
+      artifactsGenerated TEXT,
+      environmentContext TEXT,
+      summaryFilePath TEXT,
+      costData TEXT,
+      feedbackHistory TEXT,
+      retryCount INTEGER DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      updatedAt TEXT NOT NULL,
+      archivedAt TEXT NOT NULL
+  );
+  CREATE TABLE metadata (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updatedAt TEXT NOT NULL
+  );
+  INSERT INTO requests VALUES ('req-1', 'Old request', '', 0, '2025-01-01', '2025-01-01');
+  INSERT INTO tasks (taskId, requestId, title, description, status, priority, createdAt, updatedAt)
+  VALUES ('task-1', 'req-1', 'Migrate invoices', '', 'pending', 'medium', '2025-01-01', '2025-01-01');
+`;
+
+const openDatabase = () => {
+  const dbPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "meta-mind-migrations-")),
+    "tasks.db",
+  );
+  return { db: new Database(dbPath), dbPath };
+};
+
+test("migrations upgrade a 0.3.0 database after backing it up", () => {
+  const { db, dbPath } = openDatabase();
+  db.exec(SCHEMA_0_3_0);
+
+  runMigrations(db, dbPath, false);
+
+  assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION);
+  const backups = fs.readdirSync(path.join(path.dirname(dbPath), "backups"));
+  assert.equal(backups.length, 1);
+  assert.match(backups[0], /^tasks\.db\.v0-/);
+
+  const backup = new Database(
+    path.join(path.dirname(dbPath), "backups", backups[0]),
+  );
+  assert.equal(getSchemaVersion(backup), 0);
+  backup.close();
+
+  // Existing tasks survive and are indexed for search
+  const matches = db
+    .prepare("SELECT COUNT(*) AS count FROM tasks_fts WHERE tasks_fts MATCH ?")
+    .get("invoices") as { count: number };
+  assert.equal(matches.count, 1);
+  db.close();
+});
+
+test("migrations do nothing on an up-to-date database", () => {
+  const { db, dbPath } = openDatabase();
+  db.exec(SCHEMA_0_3_0);
+  runMigrations(db, dbPath, true);
+
+  runMigrations(db, dbPath, false);
+
+  assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION);
+  assert.equal(
+    fs.existsSync(path.join(path.dirname(dbPath), "backups")),
+    false,
+  );
+  db.close();
+});
+
+test("migrations refuse a database from a newer release", () => {
+  const { db, dbPath } = openDatabase();
+  db.exec(SCHEMA_0_3_0);
+  db.prepare(
+    "INSERT INTO metadata (key, value, updatedAt) VALUES ('schemaVersion', ?, '')",
+  ).run(String(LATEST_SCHEMA_VERSION + 1));
+
+  assert.throws(() => runMigrations(db, dbPath, false), SchemaVersionError);
+  assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION + 1);
+  db.close();
+});
+
+test("a failing migration rolls back and leaves the version unchanged", () => {
+  const { db, dbPath } = openDatabase();
+  db.exec(SCHEMA_0_3_0);
+  // Migration 3 creates task_events; a clash makes it fail after 1 and 2 applied
+  db.exec("CREATE TABLE task_events (eventId INTEGER)");
+
+  assert.throws(() => runMigrations(db, dbPath, true), /already exists/);
+  assert.equal(getSchemaVersion(db), 2);
+  db.close();
+});
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, server } from "./helpers.js";
+import { TaskType } from "../src/interfaces.js";
+
+const promptText = async (name: string, args?: Record<string, string>) => {
+  const { messages } = await server.getPrompt(name, args);
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].content.type, "text");
+  return messages[0].content.text as string;
+};
+
+test("plan-request lists registered agents and open requests", async () => {
+  const { requestId } = await planRequest([{ title: "Backend" }]);
+  await call("register_agent", () =>
+    server.registerAgent({
+      agentId: "prompt-agent",
+      name: "Prompt agent",
+      taskTypes: [TaskType.Documentation],
+    }),
+  );
+
+  const text = await promptText("plan-request", {
+    request: "Add a changelog",
+    context: "TypeScript monorepo",
+  });
+  assert.match(text, /Add a changelog/);
+  assert.match(text, /TypeScript monorepo/);
+  assert.match(text, /- prompt-agent \(Prompt agent\): documentation/);
+  assert.match(text, new RegExp(`- ${requestId}: Ship the feature`));
+  assert.match(text, /"originalRequest"/);
+
+  await assert.rejects(
+    server.getPrompt("plan-request", { request: "  " }),
+    /requires the 'request' argument/,
+  );
+});
+
+test("decompose-task describes the task, its subtasks and dependencies", async () => {
+  const {
+    requestId,
+    taskIds: [first, second],
+  } = await planRequest([{ title: "Schema" }, { title: "API" }]);
+  await call("add_dependency", () =>
+    server.addDependency({ requestId, taskId: second, dependsOnTaskId: first }),
+  );
+
+  const text = await promptText("decompose-task", { taskId: second });
+  assert.match(text, new RegExp(`Split task ${second}`));
+  assert.match(
+    text,
+    new RegExp(`Depends on:\n- ${first} \\[pending, medium\\]: Schema`),
+  );
+  assert.match(text, /The task has no subtasks yet\./);
+  assert.match(text, new RegExp(`"taskIdToSplit": "${second}"`));
+
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: first }),
+  );
+  await assert.rejects(
+    server.getPrompt("decompose-task", { taskId: first }),
+    /is archived; restore it first/,
+  );
+});
+
+test("write-completion-summary gathers answers, feedback and the logged summary", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Docs" }, { title: "Publish" }]);
+  const { questions } = (await call("request_clarification", () =>
+    server.requestClarification({
+      requestId,
+      taskId,
+      questions: ["Which format?"],
+    }),
+  )) as { questions: Array<{ questionId: string }> };
+  await call("answer_clarification", () =>
+    server.answerClarification({
+      requestId,
+      questionId: questions[0].questionId,
+      answer: "Markdown",
+    }),
+  );
+  await call("log_task_completion_summary", () =>
+    server.logTaskCompletionSummary({
+      requestId,
+      taskId,
+      summaryMarkdownContent: "# First pass",
+    }),
+  );
+
+  const text = await promptText("write-completion-summary", { taskId });
+  assert.match(text, /- Which format\? -> Markdown/);
+  assert.match(text, /revise it rather than starting over:\n# First pass/);
+  assert.match(text, /"summaryMarkdownContent": "# \.\.\."/);
+});
+
+test("unknown prompts and tasks are rejected", async () => {
+  await assert.rejects(server.getPrompt("missing", {}), /Unknown prompt/);
+  await assert.rejects(
+    server.getPrompt("write-completion-summary", { taskId: "task-missing" }),
+    /Task 'task-missing' not found/,
+  );
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+test("failing the last open task keeps the request open", async () => {
+  const {
+    requestId,
+    taskIds: [first, second],
+  } = await planRequest([{ title: "Build" }, { title: "Deploy" }]);
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: first }),
+  );
+  await call("mark_task_failed", () =>
+    server.markTaskFailed({ requestId, taskId: second, reason: "Timeout" }),
+  );
+
+  assert.equal((await readRequest(requestId)).completed, false);
+});
+
+test("a request completes once every tree settles under its policy", async () => {
+  const {
+    requestId,
+    taskIds: [parentId],
+  } = await planRequest([{ title: "Feature" }]);
+  await call("update_task", () =>
+    server.updateTask({
+      requestId,
+      taskId: parentId,
+      rollupPolicy: "best-effort",
+    }),
+  );
+  const { createdSubtasks } = (await call("split_task", () =>
+    server.splitTask({
+      requestId,
+      taskIdToSplit: parentId,
+      newSubtaskDefinitions: [
+        { title: "Backend", description: "" },
+        { title: "Frontend", description: "" },
+      ],
+    }),
+  )) as { createdSubtasks: Array<{ id: string }> };
+
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: createdSubtasks[0].id }),
+  );
+  await call("mark_task_failed", () =>
+    server.markTaskFailed({ requestId, taskId: createdSubtasks[1].id }),
+  );
+
+  assert.equal((await readRequest(requestId)).completed, true);
+});
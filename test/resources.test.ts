@@ -0,0 +1,147 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+const SUMMARIES_DIR = path.join(
+  os.homedir(),
+  ".meta_mind",
+  "completed_task_summaries",
+);
+
+const readJson = async <T>(uri: string): Promise<T> =>
+  JSON.parse((await server.readResource(uri)).text);
+
+const writeOutsideFile = (): string => {
+  const filePath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "meta-mind-outside-")),
+    "secret.txt",
+  );
+  fs.writeFileSync(filePath, "secret");
+  return filePath;
+};
+
+test("resources list and read requests, tasks and archives", async () => {
+  const {
+    requestId,
+    taskIds: [parentId, other],
+  } = await planRequest([{ title: "Feature" }, { title: "Docs" }]);
+  const { createdSubtasks } = (await call("split_task", () =>
+    server.splitTask({
+      requestId,
+      taskIdToSplit: parentId,
+      newSubtaskDefinitions: [{ title: "Backend", description: "" }],
+    }),
+  )) as { createdSubtasks: Array<{ id: string }> };
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: createdSubtasks[0].id }),
+  );
+
+  const uris = (await server.listResources()).map((resource) => resource.uri);
+  assert.ok(uris.includes("meta-mind://requests"));
+  assert.ok(uris.includes(`meta-mind://request/${requestId}`));
+  assert.ok(uris.includes(`meta-mind://archive/${requestId}`));
+
+  const requests = await readJson<Array<{ requestId: string }>>(
+    "meta-mind://requests",
+  );
+  assert.ok(requests.some((request) => request.requestId === requestId));
+  assert.deepEqual(
+    (await readRequest(requestId)).tasks.map((task) => task.id),
+    [other],
+  );
+
+  const archive = await readJson<
+    Array<{ id: string; subtasks: Array<{ id: string }> }>
+  >(`meta-mind://archive/${requestId}`);
+  assert.deepEqual(
+    archive.map((node) => [node.id, node.subtasks.map((sub) => sub.id)]),
+    [[parentId, [createdSubtasks[0].id]]],
+  );
+  const archivedTask = await readJson<{ id: string; archivedAt?: string }>(
+    `meta-mind://task/${parentId}`,
+  );
+  assert.ok(archivedTask.archivedAt);
+
+  await assert.rejects(
+    server.readResource("meta-mind://task/task-missing"),
+    /Task 'task-missing' not found/,
+  );
+  await assert.rejects(
+    server.readResource("meta-mind://unknown/1"),
+    /Unknown resource URI/,
+  );
+});
+
+test("summary resources serve files written by log_task_completion_summary", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Feature" }]);
+  await call("log_task_completion_summary", () =>
+    server.logTaskCompletionSummary({
+      requestId,
+      taskId,
+      summaryMarkdownContent: "# Done",
+    }),
+  );
+
+  const summary = await server.readResource(`meta-mind://summary/${taskId}`);
+  assert.equal(summary.mimeType, "text/markdown");
+  assert.equal(summary.text, "# Done");
+
+  // A symlink planted in the summaries directory cannot escape it
+  const summaryPath = path.join(
+    SUMMARIES_DIR,
+    `${taskId}_completion_summary.md`,
+  );
+  fs.rmSync(summaryPath);
+  fs.symlinkSync(writeOutsideFile(), summaryPath);
+  await assert.rejects(
+    server.readResource(`meta-mind://summary/${taskId}`),
+    /outside the summaries directory/,
+  );
+});
+
+test("summary resources refuse paths outside the summaries directory", async () => {
+  const tasksFilePath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "meta-mind-legacy-")),
+    "tasks.json",
+  );
+  fs.writeFileSync(
+    tasksFilePath,
+    JSON.stringify({
+      requests: [
+        {
+          requestId: "req-900",
+          originalRequest: "Legacy work",
+          splitDetails: "",
+          completed: false,
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z",
+          tasks: [
+            {
+              id: "task-900",
+              title: "Imported",
+              description: "",
+              status: "done",
+              priority: "medium",
+              summaryFilePath: writeOutsideFile(),
+              createdAt: "2025-01-01T00:00:00.000Z",
+              updatedAt: "2025-01-01T00:00:00.000Z",
+            },
+          ],
+        },
+      ],
+      metadata: { lastRequestId: 900, lastTaskId: 900 },
+    }),
+  );
+  await server.importLegacyJson({ tasksFilePath });
+
+  await assert.rejects(
+    server.readResource("meta-mind://summary/task-900"),
+    /outside the summaries directory/,
+  );
+});
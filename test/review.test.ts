@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, server } from "./helpers.js";
+
+interface TaskResource {
+  status: string;
+  completedDetails?: string;
+  feedbackHistory?: Array<{ kind: string; round: number; author?: string }>;
+}
+
+const readTask = async (taskId: string): Promise<TaskResource> =>
+  JSON.parse((await server.readResource(`meta-mind://task/${taskId}`)).text);
+
+const submit = (requestId: string, taskId: string, completedDetails: string) =>
+  call("submit_task_for_review", () =>
+    server.submitTaskForReview({ requestId, taskId, completedDetails }),
+  ) as Promise<{ status: string }>;
+
+const review = (
+  requestId: string,
+  taskId: string,
+  verdict: "approve" | "request-changes",
+) =>
+  call("add_task_feedback", () =>
+    server.addTaskFeedback({
+      requestId,
+      taskId,
+      verdict,
+      comment: `${verdict} comment`,
+      reviewer: "reviewer-1",
+    }),
+  ) as Promise<{ status: string }>;
+
+test("review rounds keep every submission and verdict", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Write docs" }, { title: "Publish" }]);
+
+  assert.equal(
+    (await submit(requestId, taskId, "First draft")).status,
+    "in_review",
+  );
+  assert.equal((await readTask(taskId)).status, "in-review");
+  assert.equal(
+    (await submit(requestId, taskId, "Again")).status,
+    "already_in_review",
+  );
+
+  assert.equal(
+    (await review(requestId, taskId, "request-changes")).status,
+    "changes_requested",
+  );
+  assert.equal((await readTask(taskId)).status, "active");
+
+  await submit(requestId, taskId, "Second draft");
+  assert.equal((await review(requestId, taskId, "approve")).status, "approved");
+
+  const approved = await readTask(taskId);
+  assert.equal(approved.status, "done");
+  assert.equal(approved.completedDetails, "Second draft");
+  assert.deepEqual(
+    approved.feedbackHistory?.map((entry) => [entry.kind, entry.round]),
+    [
+      ["submission", 1],
+      ["request-changes", 1],
+      ["submission", 2],
+      ["approve", 2],
+    ],
+  );
+  assert.equal(approved.feedbackHistory?.[3].author, "reviewer-1");
+});
+
+test("feedback is only accepted on tasks in review", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Write docs" }]);
+
+  await assert.rejects(
+    review(requestId, taskId, "approve"),
+    /Feedback can only be added to tasks in review/,
+  );
+  await call("mark_task_failed", () =>
+    server.markTaskFailed({ requestId, taskId, reason: "Out of scope" }),
+  );
+  await assert.rejects(
+    submit(requestId, taskId, "Done anyway"),
+    /Only pending or active tasks can be submitted for review/,
+  );
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+test("get_next_task offers a failed last task for retry", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Deploy" }]);
+  await call("mark_task_failed", () =>
+    server.markTaskFailed({ requestId, taskId, reason: "Timeout" }),
+  );
+
+  const next = (await server.getNextTask({ requestId })) as {
+    status: string;
+    task?: { id: string };
+  };
+  assert.equal(next.status, "retryable_task");
+  assert.equal(next.task?.id, taskId);
+});
+
+test("a dependency that was done and archived counts as met", async () => {
+  const {
+    requestId,
+    taskIds: [first, second],
+  } = await planRequest([{ title: "Build" }, { title: "Deploy" }]);
+  await call("add_dependency", () =>
+    server.addDependency({ requestId, taskId: second, dependsOnTaskId: first }),
+  );
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: first }),
+  );
+  assert.equal((await readRequest(requestId)).archivedTaskCount, 1);
+
+  const next = (await server.getNextTask({ requestId })) as {
+    status: string;
+    task?: { id: string };
+  };
+  assert.equal(next.status, "next_task");
+  assert.equal(next.task?.id, second);
+});
+
+test("read-only tools expire leases outside the caller's operation", async () => {
+  const {
+    requestId,
+    taskIds: [taskId],
+  } = await planRequest([{ title: "Build" }]);
+  await call("claim_next_task", () =>
+    server.claimNextTask({
+      requestId,
+      agentId: "agent-1",
+      leaseMinutes: 0.001,
+    }),
+  );
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  await call("list_actionable_tasks", () =>
+    server.listActionableTasks({ requestId }),
+  );
+  assert.equal((await readRequest(requestId)).tasks[0].status, "pending");
+
+  // The expiry is not undoable, and the claim before it no longer applies
+  await assert.rejects(
+    call("undo", () => server.undo({ requestId })),
+    new RegExp(`task '${taskId}' was changed after`),
+  );
+  const [task] = (await readRequest(requestId)).tasks as Array<{
+    status: string;
+    leaseOwner?: string;
+  }>;
+  assert.equal(task.status, "pending");
+  assert.equal(task.leaseOwner, undefined);
+});
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, server } from "./helpers.js";
+
+const searchIds = async (query: string) =>
+  (
+    (await server.searchTasks({ query })) as {
+      results: Array<{ taskId: string }>;
+    }
+  ).results.map((result) => result.taskId);
+
+test("search follows task edits, archiving and deletes", async () => {
+  const {
+    requestId,
+    taskIds: [first, second],
+  } = await planRequest([
+    { title: "Parse invoices" },
+    { title: "Send emails" },
+  ]);
+  assert.deepEqual(await searchIds("invoices"), [first]);
+
+  await call("update_task", () =>
+    server.updateTask({ requestId, taskId: first, title: "Parse receipts" }),
+  );
+  assert.deepEqual(await searchIds("invoices"), []);
+  assert.deepEqual(await searchIds("receipts"), [first]);
+
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: first }),
+  );
+  assert.deepEqual(await searchIds("receipts"), [first]); // now archived
+
+  await call("delete_task", () =>
+    server.deleteTask({ requestId, taskId: second }),
+  );
+  assert.deepEqual(await searchIds("emails"), []);
+});
+
+test("search results stay linked to their tasks after a VACUUM", async () => {
+  const { getDb } = await import("../src/database.js");
+  const {
+    requestId,
+    taskIds: [first, second, third],
+  } = await planRequest([
+    { title: "Index pages" },
+    { title: "Crawl links" },
+    { title: "Rank results" },
+  ]);
+  await call("delete_task", () =>
+    server.deleteTask({ requestId, taskId: first }),
+  );
+
+  getDb().exec("VACUUM");
+
+  assert.deepEqual(await searchIds("links"), [second]);
+  assert.deepEqual(await searchIds("results"), [third]);
+});
@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setImmediate as nextTurn } from "node:timers/promises";
+import { call, planRequest, server } from "./helpers.js";
+import {
+  ResourceSubscriptions,
+  archiveResourceUri,
+  requestResourceUri,
+  taskResourceUri,
+} from "../src/resources.js";
+
+const subscribeToRepository = () => {
+  const notified: string[] = [];
+  const subscriptions = new ResourceSubscriptions(async (uri) => {
+    notified.push(uri);
+  });
+  const stop = server.onRepositoryChange((change) =>
+    subscriptions.handleChange(change),
+  );
+  return { notified, subscriptions, stop };
+};
+
+test("subscribers are notified once per changed resource", async () => {
+  const {
+    requestId,
+    taskIds: [taskId, other],
+  } = await planRequest([{ title: "Backend" }, { title: "Frontend" }]);
+  const { notified, subscriptions, stop } = subscribeToRepository();
+  subscriptions.subscribe(requestResourceUri(requestId));
+  subscriptions.subscribe(taskResourceUri(taskId));
+  subscriptions.subscribe(archiveResourceUri(requestId));
+
+  try {
+    await call("update_task", () =>
+      server.updateTask({ requestId, taskId, title: "API" }),
+    );
+    await call("update_task", () =>
+      server.updateTask({ requestId, taskId, description: "REST" }),
+    );
+    await nextTurn();
+    assert.deepEqual(notified.sort(), [
+      requestResourceUri(requestId),
+      taskResourceUri(taskId),
+    ]);
+
+    notified.length = 0;
+    await call("mark_task_done", () =>
+      server.markTaskDone({ requestId, taskId: other }),
+    );
+    await nextTurn();
+    assert.deepEqual(notified.sort(), [
+      archiveResourceUri(requestId),
+      requestResourceUri(requestId),
+    ]);
+  } finally {
+    stop();
+  }
+});
+
+test("unsubscribed resources and other requests are not notified", async () => {
+  const first = await planRequest([{ title: "Backend" }]);
+  const second = await planRequest([{ title: "Frontend" }]);
+  const { notified, subscriptions, stop } = subscribeToRepository();
+  subscriptions.subscribe(requestResourceUri(first.requestId));
+  subscriptions.subscribe(taskResourceUri(first.taskIds[0]));
+  subscriptions.unsubscribe(taskResourceUri(first.taskIds[0]));
+
+  try {
+    await call("update_task", () =>
+      server.updateTask({
+        requestId: second.requestId,
+        taskId: second.taskIds[0],
+        title: "UI",
+      }),
+    );
+    await call("update_task", () =>
+      server.updateTask({
+        requestId: first.requestId,
+        taskId: first.taskIds[0],
+        title: "API",
+      }),
+    );
+    await nextTurn();
+    assert.deepEqual(notified, [requestResourceUri(first.requestId)]);
+  } finally {
+    stop();
+  }
+
+  assert.throws(
+    () => subscriptions.subscribe("meta-mind://unknown/1"),
+    /Unknown resource URI/,
+  );
+});
@@ -0,0 +1,130 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+interface InstantiatedTask {
+  id: string;
+  title: string;
+  parentId?: string;
+  dependsOn: string[];
+}
+
+const saveTemplate = (requestId: string, name: string, overwrite?: boolean) =>
+  call("save_template", () =>
+    server.saveTemplate({
+      requestId,
+      name,
+      placeholders: { feature: "feature" },
+      overwrite,
+    }),
+  ) as Promise<{ status: string; template: { variables: string[] } }>;
+
+const instantiate = (name: string, variables?: Record<string, string>) =>
+  call("instantiate_template", () =>
+    server.instantiateTemplate({ name, variables }),
+  ) as Promise<{ requestId: string; tasks: InstantiatedTask[] }>;
+
+/**
+ * Plans "Build feature" split into two subtasks, the second depending on the first
+ */
+const planFeature = async () => {
+  const {
+    requestId,
+    taskIds: [parentId, docsId],
+  } = await planRequest([
+    { title: "Build feature" },
+    { title: "Document feature" },
+  ]);
+  const { createdSubtasks } = (await call("split_task", () =>
+    server.splitTask({
+      requestId,
+      taskIdToSplit: parentId,
+      newSubtaskDefinitions: [
+        { title: "feature schema", description: "" },
+        { title: "feature API", description: "Serve the feature" },
+      ],
+    }),
+  )) as { createdSubtasks: Array<{ id: string }> };
+  const [schema, api] = createdSubtasks.map((subtask) => subtask.id);
+  await call("add_dependency", () =>
+    server.addDependency({ requestId, taskId: api, dependsOnTaskId: schema }),
+  );
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: docsId }),
+  );
+  return requestId;
+};
+
+test("a saved template recreates the task tree with new IDs and values", async () => {
+  const source = await planFeature();
+  const saved = await saveTemplate(source, "feature-plan");
+  assert.equal(saved.status, "template_saved");
+  assert.deepEqual(saved.template.variables, ["feature"]);
+
+  const { templates } = (await server.listTemplates({})) as {
+    templates: Array<{ name: string; taskCount: number }>;
+  };
+  assert.deepEqual(
+    templates.find((template) => template.name === "feature-plan")?.taskCount,
+    4,
+  );
+
+  const { requestId, tasks } = await instantiate("feature-plan", {
+    feature: "billing",
+  });
+  assert.deepEqual(
+    tasks.map((task) => task.title),
+    ["Build billing", "billing schema", "billing API", "Document billing"],
+  );
+  const [parent, schema, api] = tasks;
+  assert.equal(schema.parentId, parent.id);
+  assert.equal(api.parentId, parent.id);
+  assert.deepEqual(api.dependsOn, [schema.id]);
+
+  const request = await readRequest(requestId);
+  assert.equal(request.tasks.length, 4);
+  assert.ok(request.tasks.every((task) => task.status === "pending"));
+  assert.deepEqual(
+    request.tasks.find((task) => task.id === parent.id)?.subtaskIds,
+    [schema.id, api.id],
+  );
+});
+
+test("templates refuse silent overwrites and missing values", async () => {
+  const source = await planFeature();
+  await saveTemplate(source, "guarded");
+  await assert.rejects(
+    saveTemplate(source, "guarded"),
+    /already exists\. Pass overwrite: true/,
+  );
+  assert.equal(
+    (await saveTemplate(source, "guarded", true)).status,
+    "template_updated",
+  );
+
+  await assert.rejects(instantiate("guarded"), /needs values for: feature/);
+  await assert.rejects(instantiate("missing"), /Template 'missing' not found/);
+});
+
+test("saving templates is recorded as changes", async () => {
+  const source = await planFeature();
+  const changes: Array<{ eventType: string }> = [];
+  const stop = server.onRepositoryChange((change) => changes.push(change));
+  await saveTemplate(source, "recorded");
+  await saveTemplate(source, "recorded", true); // unchanged, so not recorded
+  await call("add_tasks_to_request", () =>
+    server.addTasksToRequest({
+      requestId: source,
+      tasks: [{ title: "Release feature", description: "" }],
+    }),
+  );
+  await saveTemplate(source, "recorded", true);
+  stop();
+
+  assert.deepEqual(
+    changes
+      .map((change) => change.eventType)
+      .filter((eventType) => eventType.startsWith("template_")),
+    ["template_created", "template_updated"],
+  );
+});
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, readRequest, server } from "./helpers.js";
+
+/**
+ * Plans a parent with two subtasks and completes them, which auto-archives
+ * the whole tree
+ */
+const planArchivedTree = async () => {
+  const {
+    requestId,
+    taskIds: [parentId],
+  } = await planRequest([{ title: "Feature" }]);
+  const { createdSubtasks } = (await call("split_task", () =>
+    server.splitTask({
+      requestId,
+      taskIdToSplit: parentId,
+      newSubtaskDefinitions: [
+        { title: "Backend", description: "API" },
+        { title: "Frontend", description: "UI" },
+      ],
+    }),
+  )) as { createdSubtasks: Array<{ id: string }> };
+
+  for (const subtask of createdSubtasks) {
+    await call("mark_task_done", () =>
+      server.markTaskDone({ requestId, taskId: subtask.id }),
+    );
+  }
+  const archived = await readRequest(requestId);
+  assert.equal(archived.tasks.length, 0);
+  assert.equal(archived.archivedTaskCount, 3);
+
+  return {
+    requestId,
+    parentId,
+    subtaskIds: createdSubtasks.map((subtask) => subtask.id),
+  };
+};
+
+test("undo restores an auto-archived tree with subtasks", async () => {
+  const { requestId, parentId, subtaskIds } = await planArchivedTree();
+
+  await call("undo", () => server.undo({ requestId }));
+
+  const restored = await readRequest(requestId);
+  assert.equal(restored.archivedTaskCount, 0);
+  const byId = new Map(restored.tasks.map((task) => [task.id, task]));
+  assert.equal(byId.size, 3);
+  assert.equal(byId.get(subtaskIds[0])?.parentId, parentId);
+  assert.equal(byId.get(subtaskIds[0])?.status, "done");
+  assert.equal(byId.get(subtaskIds[1])?.status, "pending");
+});
+
+test("undo re-archives a restored tree with subtasks", async () => {
+  const { requestId, parentId } = await planArchivedTree();
+  await call("restore_task_tree", () =>
+    server.restoreTaskTree({ requestId, taskId: parentId }),
+  );
+  assert.equal((await readRequest(requestId)).tasks.length, 3);
+
+  await call("undo", () => server.undo({ requestId }));
+
+  const archived = await readRequest(requestId);
+  assert.equal(archived.tasks.length, 0);
+  assert.equal(archived.archivedTaskCount, 3);
+});
@@ -0,0 +1,84 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { call, planRequest, server } from "./helpers.js";
+import { runWatch } from "../src/watch.js";
+
+/**
+ * Renders a single watch frame of a request
+ */
+const watchOnce = async (requestId: string) => {
+  const log = mock.method(console, "log", () => {});
+  try {
+    assert.equal(
+      await runWatch(server, {
+        requestId,
+        intervalMs: 500,
+        eventCount: 3,
+        once: true,
+      }),
+      0,
+    );
+    return log.mock.calls.map((c) => c.arguments.join(" ")).join("\n");
+  } finally {
+    log.mock.restore();
+  }
+};
+
+test("watch shows progress, active tasks and recent events", async () => {
+  const {
+    requestId,
+    taskIds: [first, second],
+  } = await planRequest([{ title: "Backend" }, { title: "Frontend" }]);
+  await call("claim_next_task", () =>
+    server.claimNextTask({ requestId, agentId: "agent-a" }),
+  );
+
+  const frame = await watchOnce(requestId);
+  assert.match(frame, new RegExp(`${requestId} .* 0/2  Ship the feature`));
+  assert.match(frame, new RegExp(`${first} Backend  active \\d+s @agent-a`));
+  assert.match(frame, new RegExp(`${second} Frontend$`, "m"));
+  assert.match(frame, /Recent events\n.*pending → active {2}claim_next_task/);
+});
+
+test("watch explains blocks whose root cause was archived", async () => {
+  const {
+    requestId,
+    taskIds: [parentId, api],
+  } = await planRequest([{ title: "Data" }, { title: "API" }]);
+  await call("update_task", () =>
+    server.updateTask({
+      requestId,
+      taskId: parentId,
+      rollupPolicy: "best-effort",
+    }),
+  );
+  const { createdSubtasks } = (await call("split_task", () =>
+    server.splitTask({
+      requestId,
+      taskIdToSplit: parentId,
+      newSubtaskDefinitions: [
+        { title: "Schema", description: "" },
+        { title: "Seed", description: "" },
+      ],
+    }),
+  )) as { createdSubtasks: Array<{ id: string }> };
+  const [schema, seed] = createdSubtasks.map((subtask) => subtask.id);
+  await call("add_dependency", () =>
+    server.addDependency({ requestId, taskId: api, dependsOnTaskId: schema }),
+  );
+
+  // The failed subtask is archived with its best-effort parent
+  await call("mark_task_failed", () =>
+    server.markTaskFailed({ requestId, taskId: schema, reason: "No access" }),
+  );
+  await call("mark_task_done", () =>
+    server.markTaskDone({ requestId, taskId: seed }),
+  );
+
+  const frame = await watchOnce(requestId);
+  assert.match(frame, /3\/4  Ship the feature/);
+  assert.match(
+    frame,
+    new RegExp(`${api} API  blocked: ${schema} \\(failed\\) -> ${api}`),
+  );
+});